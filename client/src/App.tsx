@@ -7,10 +7,16 @@ import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import LeaveRequest from './pages/LeaveRequest';
+import LeaveRequestDetail from './pages/LeaveRequestDetail';
 import LeaveApproval from './pages/LeaveApproval';
 import LeaveRecords from './pages/LeaveRecords';
+import LeaveCalendar from './pages/LeaveCalendar';
 import UserManagement from './pages/UserManagement';
 import DepartmentManagement from './pages/DepartmentManagement';
+import LeavePolicies from './pages/LeavePolicies';
+import HolidayManagement from './pages/HolidayManagement';
+import AcademicYearManagement from './pages/AcademicYearManagement';
+import ApprovalWorkflows from './pages/ApprovalWorkflows';
 import Profile from './pages/Profile';
 import Layout from './components/Layout';
 
@@ -41,10 +47,16 @@ function App() {
               <Route index element={<Navigate to="/dashboard" replace />} />
               <Route path="dashboard" element={<Dashboard />} />
               <Route path="leave-request" element={<LeaveRequest />} />
+              <Route path="leave-requests/:id" element={<LeaveRequestDetail />} />
               <Route path="leave-approval" element={<LeaveApproval />} />
               <Route path="leave-records" element={<LeaveRecords />} />
+              <Route path="leave-calendar" element={<LeaveCalendar />} />
               <Route path="users" element={<UserManagement />} />
               <Route path="departments" element={<DepartmentManagement />} />
+              <Route path="leave-policies" element={<LeavePolicies />} />
+              <Route path="holidays" element={<HolidayManagement />} />
+              <Route path="academic-years" element={<AcademicYearManagement />} />
+              <Route path="approval-workflows" element={<ApprovalWorkflows />} />
               <Route path="profile" element={<Profile />} />
             </Route>
           </Routes>
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Box, Chip, Tooltip, Typography } from '@mui/material';
+import { ChevronRight } from '@mui/icons-material';
+
+export interface ApprovalStep {
+  _id?: string;
+  role: string;
+  assignedTo?: {
+    _id: string;
+    name: string;
+  };
+  status: string;
+  approvedBy?: {
+    name: string;
+  };
+  approvedAt?: string;
+  onBehalfOf?: {
+    name: string;
+  };
+  comments?: string;
+  override?: boolean;
+  openedAt?: string;
+  escalatedAt?: string;
+  ruleWarnings?: string[];
+}
+
+interface ApprovalChainProps {
+  steps: ApprovalStep[];
+}
+
+const roleLabels: { [role: string]: string } = {
+  manager: 'Manager',
+  coordinator: 'Coordinator',
+  admin: 'Admin',
+};
+
+const getStepColor = (status: string) => {
+  switch (status) {
+    case 'approved': return 'success';
+    case 'rejected': return 'error';
+    default: return 'default';
+  }
+};
+
+const describeStep = (step: ApprovalStep, isOpen: boolean) => {
+  if (!step.approvedBy) {
+    if (!isOpen) return 'Opens once the earlier stages approve';
+    const escalated = step.escalatedAt ? ' (escalated)' : '';
+    return step.assignedTo ? `Awaiting ${step.assignedTo.name}${escalated}` : 'Awaiting an admin';
+  }
+  const when = step.approvedAt ? ` on ${new Date(step.approvedAt).toLocaleDateString()}` : '';
+  const onBehalfOf = step.onBehalfOf ? ` on behalf of ${step.onBehalfOf.name}` : '';
+  const override = step.override ? ' (admin override)' : '';
+  const warnings = step.ruleWarnings && step.ruleWarnings.length ? ' (despite department rules)' : '';
+  const comments = step.comments ? `: ${step.comments}` : '';
+  return `${step.status} by ${step.approvedBy.name}${onBehalfOf}${override}${warnings}${when}${comments}`;
+};
+
+// Renders a request's approval steps in order, e.g. Manager > Coordinator > Admin
+const ApprovalChain: React.FC<ApprovalChainProps> = ({ steps }) => {
+  if (!steps || steps.length === 0) {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        No approval steps
+      </Typography>
+    );
+  }
+
+  const openIndex = steps.findIndex((step) => step.status === 'pending');
+
+  return (
+    <Box display="flex" alignItems="center" flexWrap="wrap" gap={0.5}>
+      {steps.map((step, index) => (
+        <React.Fragment key={step._id || index}>
+          {index > 0 && <ChevronRight fontSize="small" color="action" />}
+          <Tooltip title={describeStep(step, index === openIndex)}>
+            <Chip
+              label={roleLabels[step.role] || step.role}
+              color={getStepColor(step.status) as any}
+              variant={step.status === 'pending' ? 'outlined' : 'filled'}
+              size="small"
+            />
+          </Tooltip>
+        </React.Fragment>
+      ))}
+    </Box>
+  );
+};
+
+export default ApprovalChain;
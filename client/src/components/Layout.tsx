@@ -26,6 +26,11 @@ import {
   History,
   People,
   Business,
+  Policy,
+  Event,
+  DateRange,
+  AccountTree,
+  CalendarMonth,
   AccountCircle,
   Logout,
 } from '@mui/icons-material';
@@ -38,8 +43,13 @@ const menuItems = [
   { text: 'Leave Request', icon: <Assignment />, path: '/leave-request' },
   { text: 'Leave Approval', icon: <CheckCircle />, path: '/leave-approval' },
   { text: 'Leave Records', icon: <History />, path: '/leave-records' },
+  { text: 'Leave Calendar', icon: <CalendarMonth />, path: '/leave-calendar' },
   { text: 'User Management', icon: <People />, path: '/users' },
   { text: 'Department Management', icon: <Business />, path: '/departments' },
+  { text: 'Leave Policies', icon: <Policy />, path: '/leave-policies' },
+  { text: 'Holidays', icon: <Event />, path: '/holidays' },
+  { text: 'Academic Years', icon: <DateRange />, path: '/academic-years' },
+  { text: 'Approval Workflows', icon: <AccountTree />, path: '/approval-workflows' },
 ];
 
 const Layout: React.FC = () => {
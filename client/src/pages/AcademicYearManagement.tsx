@@ -0,0 +1,252 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  CircularProgress,
+  Alert,
+  IconButton,
+} from '@mui/material';
+import { Add, Edit, Delete } from '@mui/icons-material';
+import axios from 'axios';
+
+interface AcademicYear {
+  _id: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+}
+
+const AcademicYearManagement: React.FC = () => {
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+  const [currentLabel, setCurrentLabel] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [yearDialog, setYearDialog] = useState(false);
+  const [editingYear, setEditingYear] = useState<AcademicYear | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    label: '',
+    startDate: '',
+    endDate: '',
+  });
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [yearsRes, currentRes] = await Promise.all([
+        axios.get('/api/academic-years'),
+        axios.get('/api/academic-years/current'),
+      ]);
+
+      setAcademicYears(yearsRes.data);
+      setCurrentLabel(currentRes.data.label);
+    } catch (error) {
+      console.error('Error fetching academic years:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddYear = () => {
+    setEditingYear(null);
+    setFormData({
+      label: '',
+      startDate: '',
+      endDate: '',
+    });
+    setYearDialog(true);
+  };
+
+  const handleEditYear = (academicYear: AcademicYear) => {
+    setEditingYear(academicYear);
+    setFormData({
+      label: academicYear.label,
+      startDate: academicYear.startDate.slice(0, 10),
+      endDate: academicYear.endDate.slice(0, 10),
+    });
+    setYearDialog(true);
+  };
+
+  const handleSubmit = async () => {
+    setError('');
+    try {
+      if (editingYear) {
+        await axios.put(`/api/academic-years/${editingYear._id}`, formData);
+      } else {
+        await axios.post('/api/academic-years', formData);
+      }
+
+      setYearDialog(false);
+      fetchData();
+    } catch (err: any) {
+      console.error('Error saving academic year:', err);
+      setError(err.response?.data?.message || 'Failed to save academic year');
+    }
+  };
+
+  const handleDeleteYear = async (yearId: string) => {
+    if (window.confirm('Are you sure you want to deactivate this academic year?')) {
+      try {
+        await axios.delete(`/api/academic-years/${yearId}`);
+        fetchData();
+      } catch (error) {
+        console.error('Error deleting academic year:', error);
+      }
+    }
+  };
+
+  // Academic year boundaries are stored as UTC calendar dates
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC', year: 'numeric', month: 'short', day: 'numeric' });
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Paper sx={{ p: 4, mt: 4 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Typography variant="h4">
+            Academic Years
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={handleAddYear}
+          >
+            Add Academic Year
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {academicYears.length === 0 ? (
+          <Alert severity="info">
+            No academic years defined. Leave is grouped by calendar year until one is added.
+          </Alert>
+        ) : (
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Label</TableCell>
+                  <TableCell>Start Date</TableCell>
+                  <TableCell>End Date</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {academicYears.map((academicYear) => (
+                  <TableRow key={academicYear._id}>
+                    <TableCell>
+                      <Box display="flex" alignItems="center" gap={1}>
+                        <Typography variant="subtitle2">
+                          {academicYear.label}
+                        </Typography>
+                        {academicYear.label === currentLabel && (
+                          <Chip label="Current" color="primary" size="small" />
+                        )}
+                      </Box>
+                    </TableCell>
+                    <TableCell>{formatDate(academicYear.startDate)}</TableCell>
+                    <TableCell>{formatDate(academicYear.endDate)}</TableCell>
+                    <TableCell>
+                      <Box display="flex" gap={1}>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEditYear(academicYear)}
+                        >
+                          <Edit />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeleteYear(academicYear._id)}
+                        >
+                          <Delete />
+                        </IconButton>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Academic Year Dialog */}
+        <Dialog open={yearDialog} onClose={() => setYearDialog(false)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            {editingYear ? 'Edit Academic Year' : 'Add New Academic Year'}
+          </DialogTitle>
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+              <TextField
+                fullWidth
+                label="Label"
+                placeholder="e.g. 2025-26"
+                value={formData.label}
+                disabled={!!editingYear}
+                helperText={editingYear ? 'Balances are keyed by the label, so it cannot be changed' : ''}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+              />
+              <TextField
+                fullWidth
+                type="date"
+                label="Start Date"
+                InputLabelProps={{ shrink: true }}
+                value={formData.startDate}
+                onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+              />
+              <TextField
+                fullWidth
+                type="date"
+                label="End Date"
+                InputLabelProps={{ shrink: true }}
+                value={formData.endDate}
+                onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+              />
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setYearDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} variant="contained">
+              {editingYear ? 'Update' : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Paper>
+    </Container>
+  );
+};
+
+export default AcademicYearManagement;
@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+  Alert,
+  IconButton,
+} from '@mui/material';
+import { Add, Edit, Delete, ArrowUpward, ArrowDownward, Close } from '@mui/icons-material';
+import axios from 'axios';
+import ApprovalChain from '../components/ApprovalChain';
+
+interface Workflow {
+  _id: string;
+  name: string;
+  leaveType?: string;
+  department?: {
+    _id: string;
+    name: string;
+  };
+  maxDays?: number;
+  steps: {
+    role: string;
+  }[];
+}
+
+interface Department {
+  _id: string;
+  name: string;
+}
+
+const leaveTypes = [
+  { value: 'sick', label: 'Sick Leave' },
+  { value: 'vacation', label: 'Vacation' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'emergency', label: 'Emergency' },
+  { value: 'maternity', label: 'Maternity' },
+  { value: 'paternity', label: 'Paternity' },
+  { value: 'other', label: 'Other' },
+];
+
+const approverRoles = [
+  { value: 'manager', label: 'Manager' },
+  { value: 'coordinator', label: 'Coordinator' },
+  { value: 'admin', label: 'Admin' },
+];
+
+const emptyForm = {
+  name: '',
+  leaveType: '',
+  department: '',
+  maxDays: '',
+  steps: ['manager'],
+};
+
+const ApprovalWorkflows: React.FC = () => {
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [defaultSteps, setDefaultSteps] = useState<string[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [workflowDialog, setWorkflowDialog] = useState(false);
+  const [editingWorkflow, setEditingWorkflow] = useState<Workflow | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [workflowsRes, departmentsRes] = await Promise.all([
+        axios.get('/api/workflows'),
+        axios.get('/api/departments'),
+      ]);
+
+      setWorkflows(workflowsRes.data.workflows);
+      setDefaultSteps(workflowsRes.data.defaultSteps);
+      setDepartments(departmentsRes.data);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddWorkflow = () => {
+    setEditingWorkflow(null);
+    setFormData(emptyForm);
+    setError('');
+    setWorkflowDialog(true);
+  };
+
+  const handleEditWorkflow = (workflow: Workflow) => {
+    setEditingWorkflow(workflow);
+    setFormData({
+      name: workflow.name,
+      leaveType: workflow.leaveType || '',
+      department: workflow.department?._id || '',
+      maxDays: workflow.maxDays != null ? workflow.maxDays.toString() : '',
+      steps: workflow.steps.map((step) => step.role),
+    });
+    setError('');
+    setWorkflowDialog(true);
+  };
+
+  const updateStep = (index: number, role: string) => {
+    const steps = [...formData.steps];
+    steps[index] = role;
+    setFormData({ ...formData, steps });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...formData.steps];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    setFormData({ ...formData, steps });
+  };
+
+  const removeStep = (index: number) => {
+    setFormData({ ...formData, steps: formData.steps.filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = async () => {
+    setError('');
+    const payload = {
+      ...formData,
+      steps: formData.steps.map((role) => ({ role })),
+    };
+
+    try {
+      if (editingWorkflow) {
+        await axios.put(`/api/workflows/${editingWorkflow._id}`, payload);
+      } else {
+        await axios.post('/api/workflows', payload);
+      }
+
+      setWorkflowDialog(false);
+      fetchData();
+    } catch (err: any) {
+      console.error('Error saving workflow:', err);
+      setError(err.response?.data?.message || err.response?.data?.errors?.[0]?.msg || 'Failed to save workflow');
+    }
+  };
+
+  const handleDeleteWorkflow = async (workflowId: string) => {
+    if (window.confirm('Are you sure you want to deactivate this workflow?')) {
+      try {
+        await axios.delete(`/api/workflows/${workflowId}`);
+        fetchData();
+      } catch (error) {
+        console.error('Error deleting workflow:', error);
+      }
+    }
+  };
+
+  const toChain = (roles: string[]) => roles.map((role) => ({ role, status: 'pending' }));
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Paper sx={{ p: 4, mt: 4 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Typography variant="h4">
+            Approval Workflows
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={handleAddWorkflow}
+          >
+            Add Workflow
+          </Button>
+        </Box>
+
+        <Box display="flex" alignItems="center" gap={1} mb={2}>
+          <Typography variant="body2" color="text.secondary">
+            Requests no workflow matches go through:
+          </Typography>
+          <ApprovalChain steps={toChain(defaultSteps)} />
+        </Box>
+
+        {workflows.length === 0 ? (
+          <Alert severity="info">
+            No approval workflows found.
+          </Alert>
+        ) : (
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Leave Type</TableCell>
+                  <TableCell>Department</TableCell>
+                  <TableCell>Up To</TableCell>
+                  <TableCell>Steps</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {workflows.map((workflow) => (
+                  <TableRow key={workflow._id}>
+                    <TableCell>
+                      <Typography variant="subtitle2">
+                        {workflow.name}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{workflow.leaveType || 'Any'}</TableCell>
+                    <TableCell>{workflow.department?.name || 'Any'}</TableCell>
+                    <TableCell>{workflow.maxDays != null ? `${workflow.maxDays} days` : 'Any length'}</TableCell>
+                    <TableCell>
+                      <ApprovalChain steps={toChain(workflow.steps.map((step) => step.role))} />
+                    </TableCell>
+                    <TableCell>
+                      <Box display="flex" gap={1}>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEditWorkflow(workflow)}
+                        >
+                          <Edit />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeleteWorkflow(workflow._id)}
+                        >
+                          <Delete />
+                        </IconButton>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Workflow Dialog */}
+        <Dialog open={workflowDialog} onClose={() => setWorkflowDialog(false)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            {editingWorkflow ? 'Edit Workflow' : 'Add New Workflow'}
+          </DialogTitle>
+          <DialogContent>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+              <TextField
+                fullWidth
+                label="Workflow Name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                <Box sx={{ flex: '1 1 150px' }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Leave Type</InputLabel>
+                    <Select
+                      value={formData.leaveType}
+                      onChange={(e) => setFormData({ ...formData, leaveType: e.target.value })}
+                      label="Leave Type"
+                    >
+                      <MenuItem value="">Any</MenuItem>
+                      {leaveTypes.map((type) => (
+                        <MenuItem key={type.value} value={type.value}>
+                          {type.label}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+                <Box sx={{ flex: '1 1 150px' }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Department</InputLabel>
+                    <Select
+                      value={formData.department}
+                      onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                      label="Department"
+                    >
+                      <MenuItem value="">Any</MenuItem>
+                      {departments.map((dept) => (
+                        <MenuItem key={dept._id} value={dept._id}>
+                          {dept.name}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+                <Box sx={{ flex: '1 1 120px' }}>
+                  <TextField
+                    fullWidth
+                    type="number"
+                    label="Up To (days)"
+                    value={formData.maxDays}
+                    onChange={(e) => setFormData({ ...formData, maxDays: e.target.value })}
+                  />
+                </Box>
+              </Box>
+
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>
+                  Approval Steps
+                </Typography>
+                {formData.steps.map((role, index) => (
+                  <Box key={index} display="flex" alignItems="center" gap={1} mb={1}>
+                    <Typography variant="body2" sx={{ width: 24 }}>
+                      {index + 1}.
+                    </Typography>
+                    <FormControl fullWidth size="small">
+                      <Select
+                        value={role}
+                        onChange={(e) => updateStep(index, e.target.value)}
+                      >
+                        {approverRoles.map((approver) => (
+                          <MenuItem key={approver.value} value={approver.value}>
+                            {approver.label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                    <IconButton size="small" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                      <ArrowUpward fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" disabled={index === formData.steps.length - 1} onClick={() => moveStep(index, 1)}>
+                      <ArrowDownward fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" disabled={formData.steps.length === 1} onClick={() => removeStep(index)}>
+                      <Close fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ))}
+                <Button
+                  size="small"
+                  startIcon={<Add />}
+                  onClick={() => setFormData({ ...formData, steps: [...formData.steps, 'manager'] })}
+                >
+                  Add Step
+                </Button>
+              </Box>
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setWorkflowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} variant="contained" disabled={!formData.name || formData.steps.length === 0}>
+              {editingWorkflow ? 'Update' : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Paper>
+    </Container>
+  );
+};
+
+export default ApprovalWorkflows;
@@ -11,6 +11,16 @@ import {
   ListItemText,
   Chip,
   CircularProgress,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import {
   Assignment,
@@ -18,8 +28,10 @@ import {
   History,
   Person,
 } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
 import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
+import { formatDuration } from '../utils/formatDuration';
 
 interface DashboardStats {
   pendingRequests: number;
@@ -28,6 +40,29 @@ interface DashboardStats {
   leaveBalance: number;
 }
 
+interface LeaveBalance {
+  _id: string;
+  leaveType: string;
+  academicYear: string;
+  totalAllocated: number;
+  used: number;
+  remaining: number;
+  carriedForward: number;
+  carryForwardExpiresAt?: string;
+  accrualFrequency?: string;
+  borrowLimit?: number;
+}
+
+interface LedgerEntry {
+  _id: string;
+  entryType: string;
+  days: number;
+  change: number;
+  balanceAfter: number;
+  description?: string;
+  createdAt: string;
+}
+
 interface RecentRequest {
   _id: string;
   leaveType: string;
@@ -35,13 +70,21 @@ interface RecentRequest {
   endDate: string;
   status: string;
   totalDays: number;
+  durationType?: string;
+  halfDayPeriod?: string;
+  hours?: number;
 }
 
 const Dashboard: React.FC = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [recentRequests, setRecentRequests] = useState<RecentRequest[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [selectedBalance, setSelectedBalance] = useState<LeaveBalance | null>(null);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const navigate = useNavigate();
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -64,6 +107,7 @@ const Dashboard: React.FC = () => {
         });
 
         setRecentRequests(requests);
+        setBalances(balances);
       } catch (error) {
         console.error('Error fetching dashboard data:', error);
       } finally {
@@ -74,6 +118,22 @@ const Dashboard: React.FC = () => {
     fetchDashboardData();
   }, []);
 
+  const openLedger = async (balance: LeaveBalance) => {
+    setSelectedBalance(balance);
+    setLedgerEntries([]);
+    setLedgerLoading(true);
+    try {
+      const response = await axios.get('/api/leave/balance/ledger', {
+        params: { academicYear: balance.academicYear, leaveType: balance.leaveType },
+      });
+      setLedgerEntries(response.data);
+    } catch (error) {
+      console.error('Error fetching leave ledger:', error);
+    } finally {
+      setLedgerLoading(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'warning';
@@ -172,6 +232,56 @@ const Dashboard: React.FC = () => {
         </Box>
       </Box>
 
+      {/* Leave Balances */}
+      <Box sx={{ mt: 3 }}>
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            Leave Balances
+          </Typography>
+          {balances.length === 0 ? (
+            <Typography color="textSecondary">
+              No leave balances have been allocated yet.
+            </Typography>
+          ) : (
+            <List>
+              {balances.map((balance) => (
+                <ListItem
+                  key={balance._id}
+                  divider
+                  secondaryAction={
+                    <Button size="small" onClick={() => openLedger(balance)}>
+                      History
+                    </Button>
+                  }
+                >
+                  <ListItemText
+                    primary={`${balance.leaveType} - ${balance.remaining} days remaining`}
+                    secondary={
+                      <>
+                        {`Allocated: ${balance.totalAllocated - (balance.carriedForward || 0)} • Used: ${balance.used}`}
+                        {balance.carriedForward > 0 && (
+                          <Typography variant="caption" display="block" component="span">
+                            Carried forward: {balance.carriedForward} days
+                            {balance.carryForwardExpiresAt &&
+                              ` (expires ${new Date(balance.carryForwardExpiresAt).toLocaleDateString()})`}
+                          </Typography>
+                        )}
+                        {balance.accrualFrequency && balance.accrualFrequency !== 'annual' && (
+                          <Typography variant="caption" display="block" component="span">
+                            Accrues {balance.accrualFrequency}
+                            {!!balance.borrowLimit && ` • up to ${balance.borrowLimit} days may be borrowed`}
+                          </Typography>
+                        )}
+                      </>
+                    }
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </Paper>
+      </Box>
+
       {/* Recent Requests */}
       <Box sx={{ mt: 3 }}>
           <Paper sx={{ p: 2 }}>
@@ -187,7 +297,7 @@ const Dashboard: React.FC = () => {
                 {recentRequests.map((request) => (
                   <ListItem key={request._id} divider>
                     <ListItemText
-                      primary={`${request.leaveType} - ${request.totalDays} days`}
+                      primary={`${request.leaveType} - ${formatDuration(request)} days`}
                       secondary={`${new Date(request.startDate).toLocaleDateString()} - ${new Date(request.endDate).toLocaleDateString()}`}
                     />
                     <Chip
@@ -195,12 +305,63 @@ const Dashboard: React.FC = () => {
                       color={getStatusColor(request.status) as any}
                       size="small"
                     />
+                    <Button size="small" sx={{ ml: 1 }} onClick={() => navigate(`/leave-requests/${request._id}`)}>
+                      Details
+                    </Button>
                   </ListItem>
                 ))}
               </List>
             )}
           </Paper>
       </Box>
+
+      {/* Ledger Dialog */}
+      <Dialog open={!!selectedBalance} onClose={() => setSelectedBalance(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {selectedBalance?.leaveType} balance history ({selectedBalance?.academicYear})
+        </DialogTitle>
+        <DialogContent>
+          {ledgerLoading ? (
+            <Box display="flex" justifyContent="center" p={3}>
+              <CircularProgress />
+            </Box>
+          ) : ledgerEntries.length === 0 ? (
+            <Typography color="textSecondary">
+              No ledger entries found.
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Entry</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="right">Change</TableCell>
+                  <TableCell align="right">Balance</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {ledgerEntries.map((entry) => (
+                  <TableRow key={entry._id}>
+                    <TableCell>{new Date(entry.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{entry.entryType}</TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell align="right">
+                      {entry.change > 0 ? `+${entry.change}` : entry.change}
+                    </TableCell>
+                    <TableCell align="right">{entry.balanceAfter}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelectedBalance(null)}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Container>
   );
 };
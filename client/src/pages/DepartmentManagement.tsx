@@ -25,7 +25,7 @@ import {
   Alert,
   IconButton,
 } from '@mui/material';
-import { Add, Edit, Delete } from '@mui/icons-material';
+import { Add, Edit, Delete, Close } from '@mui/icons-material';
 import axios from 'axios';
 
 interface Department {
@@ -37,9 +37,32 @@ interface Department {
     name: string;
     email: string;
   };
+  weekendDays?: number[];
+  maxConcurrentAbsences?: number;
+  blackoutPeriods?: BlackoutPeriod[];
   isActive: boolean;
 }
 
+interface BlackoutPeriod {
+  name: string;
+  startDate: string;
+  endDate: string;
+  leaveTypes: string[];
+}
+
+const weekDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const leaveTypes = ['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other'];
+
+const emptyForm = {
+  name: '',
+  description: '',
+  coordinator: '',
+  weekendDays: [] as number[],
+  maxConcurrentAbsences: '',
+  blackoutPeriods: [] as BlackoutPeriod[],
+};
+
 interface User {
   _id: string;
   name: string;
@@ -53,11 +76,8 @@ const DepartmentManagement: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [departmentDialog, setDepartmentDialog] = useState(false);
   const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    coordinator: '',
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState('');
 
   useEffect(() => {
     fetchData();
@@ -83,11 +103,8 @@ const DepartmentManagement: React.FC = () => {
 
   const handleAddDepartment = () => {
     setEditingDepartment(null);
-    setFormData({
-      name: '',
-      description: '',
-      coordinator: '',
-    });
+    setFormData(emptyForm);
+    setError('');
     setDepartmentDialog(true);
   };
 
@@ -97,11 +114,38 @@ const DepartmentManagement: React.FC = () => {
       name: department.name,
       description: department.description || '',
       coordinator: department.coordinator?._id || '',
+      weekendDays: department.weekendDays || [],
+      maxConcurrentAbsences: department.maxConcurrentAbsences ? department.maxConcurrentAbsences.toString() : '',
+      blackoutPeriods: (department.blackoutPeriods || []).map((period) => ({
+        name: period.name,
+        startDate: period.startDate.slice(0, 10),
+        endDate: period.endDate.slice(0, 10),
+        leaveTypes: period.leaveTypes,
+      })),
     });
+    setError('');
     setDepartmentDialog(true);
   };
 
+  const updateBlackout = (index: number, changes: Partial<BlackoutPeriod>) => {
+    const blackoutPeriods = [...formData.blackoutPeriods];
+    blackoutPeriods[index] = { ...blackoutPeriods[index], ...changes };
+    setFormData({ ...formData, blackoutPeriods });
+  };
+
+  const addBlackout = () => {
+    setFormData({
+      ...formData,
+      blackoutPeriods: [...formData.blackoutPeriods, { name: '', startDate: '', endDate: '', leaveTypes: ['vacation'] }],
+    });
+  };
+
+  const removeBlackout = (index: number) => {
+    setFormData({ ...formData, blackoutPeriods: formData.blackoutPeriods.filter((_, i) => i !== index) });
+  };
+
   const handleSubmit = async () => {
+    setError('');
     try {
       if (editingDepartment) {
         await axios.put(`/api/departments/${editingDepartment._id}`, formData);
@@ -113,6 +157,7 @@ const DepartmentManagement: React.FC = () => {
       fetchData();
     } catch (error: any) {
       console.error('Error saving department:', error);
+      setError(error.response?.data?.message || 'Failed to save department');
     }
   };
 
@@ -163,6 +208,7 @@ const DepartmentManagement: React.FC = () => {
                   <TableCell>Name</TableCell>
                   <TableCell>Description</TableCell>
                   <TableCell>Coordinator</TableCell>
+                  <TableCell>Coverage</TableCell>
                   <TableCell>Status</TableCell>
                   <TableCell>Actions</TableCell>
                 </TableRow>
@@ -194,6 +240,16 @@ const DepartmentManagement: React.FC = () => {
                         'N/A'
                       )}
                     </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {department.maxConcurrentAbsences ? `Max ${department.maxConcurrentAbsences} off` : 'No limit'}
+                      </Typography>
+                      {department.blackoutPeriods && department.blackoutPeriods.length > 0 && (
+                        <Typography variant="caption" color="text.secondary">
+                          {department.blackoutPeriods.length} blackout period{department.blackoutPeriods.length === 1 ? '' : 's'}
+                        </Typography>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <Chip
                         label={department.isActive ? 'Active' : 'Inactive'}
@@ -231,6 +287,11 @@ const DepartmentManagement: React.FC = () => {
             {editingDepartment ? 'Edit Department' : 'Add New Department'}
           </DialogTitle>
           <DialogContent>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
             <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
               <Box>
                 <TextField
@@ -267,6 +328,95 @@ const DepartmentManagement: React.FC = () => {
                   </Select>
                 </FormControl>
               </Box>
+              <Box>
+                <FormControl fullWidth>
+                  <InputLabel>Weekend Days</InputLabel>
+                  <Select
+                    multiple
+                    value={formData.weekendDays}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      weekendDays: (e.target.value as number[]).sort((a, b) => a - b),
+                    })}
+                    label="Weekend Days"
+                    renderValue={(selected) => selected.map((day) => weekDays[day]).join(', ')}
+                  >
+                    {weekDays.map((day, index) => (
+                      <MenuItem key={day} value={index}>
+                        {day}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+                    Leave empty to use the organisation's default weekend
+                  </Typography>
+                </FormControl>
+              </Box>
+              <Box>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Max People Off Per Day"
+                  value={formData.maxConcurrentAbsences}
+                  onChange={(e) => setFormData({ ...formData, maxConcurrentAbsences: e.target.value })}
+                  helperText="Leave empty for no coverage limit"
+                  inputProps={{ min: 1 }}
+                />
+              </Box>
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>
+                  Blackout Periods
+                </Typography>
+                {formData.blackoutPeriods.map((period, index) => (
+                  <Box key={index} display="flex" alignItems="center" gap={1} mb={1}>
+                    <TextField
+                      size="small"
+                      label="Name"
+                      value={period.name}
+                      onChange={(e) => updateBlackout(index, { name: e.target.value })}
+                    />
+                    <TextField
+                      size="small"
+                      type="date"
+                      label="From"
+                      InputLabelProps={{ shrink: true }}
+                      value={period.startDate}
+                      onChange={(e) => updateBlackout(index, { startDate: e.target.value })}
+                    />
+                    <TextField
+                      size="small"
+                      type="date"
+                      label="To"
+                      InputLabelProps={{ shrink: true }}
+                      value={period.endDate}
+                      onChange={(e) => updateBlackout(index, { endDate: e.target.value })}
+                    />
+                    <FormControl size="small" sx={{ minWidth: 160 }}>
+                      <InputLabel>Leave Types</InputLabel>
+                      <Select
+                        multiple
+                        value={period.leaveTypes}
+                        onChange={(e) => updateBlackout(index, { leaveTypes: e.target.value as string[] })}
+                        label="Leave Types"
+                        renderValue={(selected) => selected.length ? selected.join(', ') : 'All types'}
+                        displayEmpty
+                      >
+                        {leaveTypes.map((type) => (
+                          <MenuItem key={type} value={type}>
+                            {type}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                    <IconButton size="small" onClick={() => removeBlackout(index)}>
+                      <Close fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ))}
+                <Button size="small" startIcon={<Add />} onClick={addBlackout}>
+                  Add Blackout Period
+                </Button>
+              </Box>
             </Box>
           </DialogContent>
           <DialogActions>
@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+  Alert,
+  IconButton,
+} from '@mui/material';
+import { Add, Edit, Delete } from '@mui/icons-material';
+import axios from 'axios';
+
+interface Holiday {
+  _id: string;
+  name: string;
+  date: string;
+  department?: {
+    _id: string;
+    name: string;
+  };
+}
+
+interface Department {
+  _id: string;
+  name: string;
+}
+
+const HolidayManagement: React.FC = () => {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [year, setYear] = useState(new Date().getFullYear().toString());
+  const [holidayDialog, setHolidayDialog] = useState(false);
+  const [editingHoliday, setEditingHoliday] = useState<Holiday | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    name: '',
+    date: '',
+    department: '',
+  });
+
+  useEffect(() => {
+    fetchData(year);
+  }, [year]);
+
+  const fetchData = async (selectedYear: string) => {
+    try {
+      const [holidaysRes, departmentsRes] = await Promise.all([
+        axios.get('/api/holidays', { params: { year: selectedYear } }),
+        axios.get('/api/departments'),
+      ]);
+
+      setHolidays(holidaysRes.data);
+      setDepartments(departmentsRes.data);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddHoliday = () => {
+    setEditingHoliday(null);
+    setFormData({
+      name: '',
+      date: '',
+      department: '',
+    });
+    setHolidayDialog(true);
+  };
+
+  const handleEditHoliday = (holiday: Holiday) => {
+    setEditingHoliday(holiday);
+    setFormData({
+      name: holiday.name,
+      date: holiday.date.slice(0, 10),
+      department: holiday.department?._id || '',
+    });
+    setHolidayDialog(true);
+  };
+
+  const handleSubmit = async () => {
+    setError('');
+    try {
+      if (editingHoliday) {
+        await axios.put(`/api/holidays/${editingHoliday._id}`, formData);
+      } else {
+        await axios.post('/api/holidays', formData);
+      }
+
+      setHolidayDialog(false);
+      fetchData(year);
+    } catch (err: any) {
+      console.error('Error saving holiday:', err);
+      setError(err.response?.data?.message || 'Failed to save holiday');
+    }
+  };
+
+  const handleDeleteHoliday = async (holidayId: string) => {
+    if (window.confirm('Are you sure you want to remove this holiday?')) {
+      try {
+        await axios.delete(`/api/holidays/${holidayId}`);
+        fetchData(year);
+      } catch (error) {
+        console.error('Error deleting holiday:', error);
+      }
+    }
+  };
+
+  // Holidays are stored as UTC calendar dates
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC', weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Paper sx={{ p: 4, mt: 4 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Typography variant="h4">
+            Holidays
+          </Typography>
+          <Box display="flex" gap={2}>
+            <TextField
+              size="small"
+              label="Year"
+              type="number"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              sx={{ width: 120 }}
+            />
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={handleAddHoliday}
+            >
+              Add Holiday
+            </Button>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {holidays.length === 0 ? (
+          <Alert severity="info">
+            No holidays found for {year}.
+          </Alert>
+        ) : (
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Calendar</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {holidays.map((holiday) => (
+                  <TableRow key={holiday._id}>
+                    <TableCell>{formatDate(holiday.date)}</TableCell>
+                    <TableCell>
+                      <Typography variant="subtitle2">
+                        {holiday.name}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        label={holiday.department?.name || 'Organisation-wide'}
+                        color={holiday.department ? 'default' : 'primary'}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Box display="flex" gap={1}>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEditHoliday(holiday)}
+                        >
+                          <Edit />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeleteHoliday(holiday._id)}
+                        >
+                          <Delete />
+                        </IconButton>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Holiday Dialog */}
+        <Dialog open={holidayDialog} onClose={() => setHolidayDialog(false)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            {editingHoliday ? 'Edit Holiday' : 'Add New Holiday'}
+          </DialogTitle>
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+              <TextField
+                fullWidth
+                label="Holiday Name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+              <TextField
+                fullWidth
+                type="date"
+                label="Date"
+                InputLabelProps={{ shrink: true }}
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              />
+              <FormControl fullWidth>
+                <InputLabel>Calendar</InputLabel>
+                <Select
+                  value={formData.department}
+                  onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                  label="Calendar"
+                >
+                  <MenuItem value="">Organisation-wide</MenuItem>
+                  {departments.map((dept) => (
+                    <MenuItem key={dept._id} value={dept._id}>
+                      {dept.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setHolidayDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} variant="contained">
+              {editingHoliday ? 'Update' : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Paper>
+    </Container>
+  );
+};
+
+export default HolidayManagement;
@@ -21,8 +21,11 @@ import {
   Alert,
 } from '@mui/material';
 import { CheckCircle, Cancel } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
 import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
+import ApprovalChain, { ApprovalStep } from '../components/ApprovalChain';
+import { formatDuration } from '../utils/formatDuration';
 
 interface LeaveRequest {
   _id: string;
@@ -36,19 +39,47 @@ interface LeaveRequest {
   startDate: string;
   endDate: string;
   totalDays: number;
+  durationType?: string;
+  halfDayPeriod?: string;
+  hours?: number;
   reason: string;
   status: string;
-  managerApproval: {
-    status: string;
-    comments?: string;
+  approvalSteps: ApprovalStep[];
+  amendmentOf?: {
+    _id: string;
+    leaveType: string;
+    startDate: string;
+    endDate: string;
+    totalDays: number;
   };
-  coordinatorApproval: {
-    status: string;
-    comments?: string;
+  informationRequest?: {
+    requestedAt?: string;
   };
   createdAt: string;
 }
 
+interface CancellationRequest {
+  _id: string;
+  employee: {
+    _id: string;
+    name: string;
+    employeeId: string;
+  };
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+  cancellationRequest: {
+    returnDate?: string;
+    reason: string;
+    requestedAt: string;
+    assignedTo?: {
+      _id: string;
+      name: string;
+    };
+  };
+}
+
 const LeaveApproval: React.FC = () => {
   const [requests, setRequests] = useState<LeaveRequest[]>([]);
   const [loading, setLoading] = useState(true);
@@ -57,7 +88,13 @@ const LeaveApproval: React.FC = () => {
   const [approvalStatus, setApprovalStatus] = useState('');
   const [comments, setComments] = useState('');
   const [processing, setProcessing] = useState(false);
+  const [ruleWarnings, setRuleWarnings] = useState<string[]>([]);
+  const [approvalError, setApprovalError] = useState('');
+  const [cancellations, setCancellations] = useState<CancellationRequest[]>([]);
+  const [selectedCancellation, setSelectedCancellation] = useState<CancellationRequest | null>(null);
+  const [cancellationStatus, setCancellationStatus] = useState('');
   const { user } = useAuth();
+  const navigate = useNavigate();
 
   useEffect(() => {
     fetchPendingApprovals();
@@ -65,8 +102,12 @@ const LeaveApproval: React.FC = () => {
 
   const fetchPendingApprovals = async () => {
     try {
-      const response = await axios.get('/api/leave/pending-approvals');
+      const [response, cancellationsResponse] = await Promise.all([
+        axios.get('/api/leave/pending-approvals'),
+        axios.get('/api/leave/pending-cancellations'),
+      ]);
       setRequests(response.data);
+      setCancellations(cancellationsResponse.data);
     } catch (error) {
       console.error('Error fetching pending approvals:', error);
     } finally {
@@ -74,11 +115,23 @@ const LeaveApproval: React.FC = () => {
     }
   };
 
-  const handleApproval = (request: LeaveRequest, status: string) => {
+  const handleApproval = async (request: LeaveRequest, status: string) => {
     setSelectedRequest(request);
     setApprovalStatus(status);
     setComments('');
+    setRuleWarnings([]);
+    setApprovalError('');
     setApprovalDialog(true);
+
+    // Warn before approving leave that breaks the department's coverage or blackout rules
+    if (status === 'approved') {
+      try {
+        const response = await axios.get(`/api/leave/rule-check/${request._id}`);
+        setRuleWarnings(response.data.violations.map((violation: { message: string }) => violation.message));
+      } catch (error) {
+        console.error('Error checking department rules:', error);
+      }
+    }
   };
 
   const submitApproval = async () => {
@@ -88,13 +141,46 @@ const LeaveApproval: React.FC = () => {
     try {
       await axios.put(`/api/leave/approve/${selectedRequest._id}`, {
         status: approvalStatus,
+        step: getCurrentStep(selectedRequest)?._id,
+        acknowledgeWarnings: ruleWarnings.length > 0,
         comments: comments,
       });
 
       setApprovalDialog(false);
       fetchPendingApprovals();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error submitting approval:', error);
+      if (error.response?.data?.violations) {
+        setRuleWarnings(error.response.data.violations.map((violation: { message: string }) => violation.message));
+      }
+      setApprovalError(error.response?.data?.message || 'Failed to submit decision');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCancellation = (request: CancellationRequest, status: string) => {
+    setSelectedCancellation(request);
+    setCancellationStatus(status);
+    setComments('');
+    setApprovalError('');
+  };
+
+  const submitCancellation = async () => {
+    if (!selectedCancellation) return;
+
+    setProcessing(true);
+    try {
+      await axios.put(`/api/leave/cancellation/${selectedCancellation._id}`, {
+        status: cancellationStatus,
+        comments: comments,
+      });
+
+      setSelectedCancellation(null);
+      fetchPendingApprovals();
+    } catch (error: any) {
+      console.error('Error submitting cancellation decision:', error);
+      setApprovalError(error.response?.data?.message || 'Failed to submit decision');
     } finally {
       setProcessing(false);
     }
@@ -109,13 +195,34 @@ const LeaveApproval: React.FC = () => {
     }
   };
 
+  // Stages are decided in order; the open one is the first still pending
+  const getCurrentStep = (request: LeaveRequest) => {
+    return request.approvalSteps.find((step) => step.status === 'pending');
+  };
+
+  // Pending while the open stage is waiting on this approver, someone they stand in for
+  // (the server only lists those), or any open stage for admins
   const getApprovalStatus = (request: LeaveRequest) => {
-    if (user?.role === 'manager') {
-      return request.managerApproval.status;
-    } else if (user?.role === 'coordinator') {
-      return request.coordinatorApproval.status;
-    }
-    return 'pending';
+    if (request.status !== 'pending') return request.status;
+    return getCurrentStep(request) ? 'pending' : request.status;
+  };
+
+  // Stages waiting on the employee for information can still be decided
+  const isOnHold = (request: LeaveRequest) => !!request.informationRequest?.requestedAt;
+
+  // Approvers acting on a stage assigned to someone else are doing so as their delegate
+  const getDelegator = (request: LeaveRequest) => {
+    if (user?.role === 'admin') return undefined;
+    const currentStep = getCurrentStep(request);
+    return currentStep?.assignedTo && currentStep.assignedTo._id !== user?.id ? currentStep.assignedTo : undefined;
+  };
+
+  // Admins deciding a stage assigned to someone else override that approver
+  const isOverride = (request: LeaveRequest) => {
+    if (user?.role !== 'admin') return false;
+    const currentStep = getCurrentStep(request);
+    if (!currentStep) return false;
+    return currentStep.assignedTo ? currentStep.assignedTo._id !== user.id : currentStep.role !== 'admin';
   };
 
   if (loading) {
@@ -148,6 +255,7 @@ const LeaveApproval: React.FC = () => {
                   <TableCell>End Date</TableCell>
                   <TableCell>Days</TableCell>
                   <TableCell>Reason</TableCell>
+                  <TableCell>Approvals</TableCell>
                   <TableCell>Status</TableCell>
                   <TableCell>Actions</TableCell>
                 </TableRow>
@@ -165,28 +273,44 @@ const LeaveApproval: React.FC = () => {
                         </Typography>
                       </Box>
                     </TableCell>
-                    <TableCell>{request.leaveType}</TableCell>
+                    <TableCell>
+                      {request.leaveType}
+                      {request.amendmentOf && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          Amends {new Date(request.amendmentOf.startDate).toLocaleDateString()} - {new Date(request.amendmentOf.endDate).toLocaleDateString()}
+                        </Typography>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {new Date(request.startDate).toLocaleDateString()}
                     </TableCell>
                     <TableCell>
                       {new Date(request.endDate).toLocaleDateString()}
                     </TableCell>
-                    <TableCell>{request.totalDays}</TableCell>
+                    <TableCell>{formatDuration(request)}</TableCell>
                     <TableCell>
                       <Typography variant="body2" noWrap sx={{ maxWidth: 200 }}>
                         {request.reason}
                       </Typography>
                     </TableCell>
+                    <TableCell>
+                      <ApprovalChain steps={request.approvalSteps} />
+                    </TableCell>
                     <TableCell>
                       <Chip
-                        label={getApprovalStatus(request)}
-                        color={getStatusColor(getApprovalStatus(request)) as any}
+                        label={isOnHold(request) ? 'information requested' : getApprovalStatus(request)}
+                        color={isOnHold(request) ? 'info' : getStatusColor(getApprovalStatus(request)) as any}
                         size="small"
                       />
                     </TableCell>
                     <TableCell>
                       <Box display="flex" gap={1}>
+                        <Button
+                          size="small"
+                          onClick={() => navigate(`/leave-requests/${request._id}`)}
+                        >
+                          Details
+                        </Button>
                         <Button
                           size="small"
                           color="success"
@@ -214,6 +338,144 @@ const LeaveApproval: React.FC = () => {
           </TableContainer>
         )}
 
+        {cancellations.length > 0 && (
+          <Box sx={{ mt: 4 }}>
+            <Typography variant="h5" gutterBottom>
+              Cancellation Requests
+            </Typography>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Employee</TableCell>
+                    <TableCell>Leave Type</TableCell>
+                    <TableCell>Dates</TableCell>
+                    <TableCell>Change</TableCell>
+                    <TableCell>Reason</TableCell>
+                    <TableCell>Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {cancellations.map((request) => (
+                    <TableRow key={request._id}>
+                      <TableCell>
+                        <Box>
+                          <Typography variant="subtitle2">
+                            {request.employee.name}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {request.employee.employeeId}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell>{request.leaveType}</TableCell>
+                      <TableCell>
+                        {new Date(request.startDate).toLocaleDateString()} - {new Date(request.endDate).toLocaleDateString()} ({request.totalDays} days)
+                      </TableCell>
+                      <TableCell>
+                        {request.cancellationRequest.returnDate
+                          ? `Back on ${new Date(request.cancellationRequest.returnDate).toLocaleDateString()}`
+                          : 'Cancel'}
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" noWrap sx={{ maxWidth: 200 }}>
+                          {request.cancellationRequest.reason}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Box display="flex" gap={1}>
+                          <Button
+                            size="small"
+                            onClick={() => navigate(`/leave-requests/${request._id}`)}
+                          >
+                            Details
+                          </Button>
+                          <Button
+                            size="small"
+                            color="success"
+                            startIcon={<CheckCircle />}
+                            onClick={() => handleCancellation(request, 'approved')}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="small"
+                            color="error"
+                            startIcon={<Cancel />}
+                            onClick={() => handleCancellation(request, 'rejected')}
+                          >
+                            Reject
+                          </Button>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+
+        {/* Cancellation Dialog */}
+        <Dialog open={!!selectedCancellation} onClose={() => setSelectedCancellation(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            {cancellationStatus === 'approved' ? 'Approve' : 'Reject'} Cancellation
+          </DialogTitle>
+          <DialogContent>
+            {selectedCancellation && (
+              <Box>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Employee: {selectedCancellation.employee.name} ({selectedCancellation.employee.employeeId})
+                </Typography>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Leave: {selectedCancellation.leaveType}, {new Date(selectedCancellation.startDate).toLocaleDateString()} - {new Date(selectedCancellation.endDate).toLocaleDateString()}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  {selectedCancellation.cancellationRequest.returnDate
+                    ? `Returning early on ${new Date(selectedCancellation.cancellationRequest.returnDate).toLocaleDateString()}; the remaining days are credited back.`
+                    : 'The whole leave is cancelled and its days credited back.'}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Reason: {selectedCancellation.cancellationRequest.reason}
+                </Typography>
+                {selectedCancellation.cancellationRequest.assignedTo && selectedCancellation.cancellationRequest.assignedTo._id !== user?.id && (
+                  <Alert severity="info" sx={{ my: 1 }}>
+                    This cancellation is assigned to {selectedCancellation.cancellationRequest.assignedTo.name}.
+                  </Alert>
+                )}
+                {approvalError && (
+                  <Alert severity="error" sx={{ my: 1 }}>
+                    {approvalError}
+                  </Alert>
+                )}
+
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={3}
+                  label="Comments (Optional)"
+                  value={comments}
+                  onChange={(e) => setComments(e.target.value)}
+                  sx={{ mt: 2 }}
+                />
+              </Box>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setSelectedCancellation(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitCancellation}
+              color={cancellationStatus === 'approved' ? 'success' : 'error'}
+              variant="contained"
+              disabled={processing}
+            >
+              {processing ? <CircularProgress size={20} /> : cancellationStatus === 'approved' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {/* Approval Dialog */}
         <Dialog open={approvalDialog} onClose={() => setApprovalDialog(false)} maxWidth="sm" fullWidth>
           <DialogTitle>
@@ -229,11 +491,47 @@ const LeaveApproval: React.FC = () => {
                   Leave Type: {selectedRequest.leaveType}
                 </Typography>
                 <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Duration: {selectedRequest.totalDays} days
+                  Duration: {formatDuration(selectedRequest)} days
                 </Typography>
                 <Typography variant="body2" color="text.secondary" gutterBottom>
                   Reason: {selectedRequest.reason}
                 </Typography>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Stage: {getCurrentStep(selectedRequest)?.role}
+                </Typography>
+                {selectedRequest.amendmentOf && (
+                  <Alert severity="info" sx={{ my: 1 }}>
+                    This amends approved {selectedRequest.amendmentOf.leaveType} leave from {new Date(selectedRequest.amendmentOf.startDate).toLocaleDateString()} to {new Date(selectedRequest.amendmentOf.endDate).toLocaleDateString()} ({selectedRequest.amendmentOf.totalDays} days). Approving it replaces that leave.
+                  </Alert>
+                )}
+                <Box sx={{ my: 1 }}>
+                  <ApprovalChain steps={selectedRequest.approvalSteps} />
+                </Box>
+                {approvalError && (
+                  <Alert severity="error" sx={{ my: 1 }}>
+                    {approvalError}
+                  </Alert>
+                )}
+                {ruleWarnings.length > 0 && (
+                  <Alert severity="warning" sx={{ my: 1 }}>
+                    Approving this request breaks department rules:
+                    <ul style={{ margin: 0 }}>
+                      {ruleWarnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </Alert>
+                )}
+                {getDelegator(selectedRequest) && (
+                  <Alert severity="info" sx={{ my: 1 }}>
+                    You are deciding this stage on behalf of {getDelegator(selectedRequest)?.name}.
+                  </Alert>
+                )}
+                {isOverride(selectedRequest) && (
+                  <Alert severity="warning" sx={{ my: 1 }}>
+                    This request is waiting on another approver; your decision will be recorded as an admin override.
+                  </Alert>
+                )}
                 
                 <TextField
                   fullWidth
@@ -258,7 +556,7 @@ const LeaveApproval: React.FC = () => {
               disabled={processing}
             >
               {processing ? <CircularProgress size={20} /> : 
-                approvalStatus === 'approved' ? 'Approve' : 'Reject'}
+                approvalStatus === 'approved' ? (ruleWarnings.length > 0 ? 'Approve Anyway' : 'Approve') : 'Reject'}
             </Button>
           </DialogActions>
         </Dialog>
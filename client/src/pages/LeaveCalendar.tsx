@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+  Alert,
+  Tooltip,
+} from '@mui/material';
+import { ChevronLeft, ChevronRight } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import dayjs, { Dayjs } from 'dayjs';
+import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Absence {
+  _id: string;
+  employee: {
+    _id: string;
+    name: string;
+    employeeId: string;
+  };
+  leaveType: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  durationType?: string;
+  halfDayPeriod?: string;
+  hours?: number;
+}
+
+interface CalendarData {
+  weekendDays: number[];
+  holidays: {
+    date: string;
+    name: string;
+  }[];
+  absences: Absence[];
+}
+
+interface Department {
+  _id: string;
+  name: string;
+}
+
+const leaveTypeColors: Record<string, string> = {
+  sick: '#e57373',
+  vacation: '#64b5f6',
+  personal: '#81c784',
+  emergency: '#ffb74d',
+  maternity: '#ba68c8',
+  paternity: '#9575cd',
+  other: '#90a4ae',
+};
+
+const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Month views show only a few absences per day
+const MONTH_VIEW_LIMIT = 3;
+
+const LeaveCalendar: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [view, setView] = useState<'month' | 'week'>('month');
+  const [anchor, setAnchor] = useState<Dayjs>(dayjs());
+  const [scope, setScope] = useState('team');
+  const [department, setDepartment] = useState('');
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [calendar, setCalendar] = useState<CalendarData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const isAdmin = user?.role === 'admin';
+
+  // Whole weeks covering the month, or the single week
+  const rangeStart = view === 'month' ? anchor.startOf('month').startOf('week') : anchor.startOf('week');
+  const rangeEnd = view === 'month' ? anchor.endOf('month').endOf('week') : anchor.endOf('week');
+  const startKey = rangeStart.format('YYYY-MM-DD');
+  const endKey = rangeEnd.format('YYYY-MM-DD');
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    axios.get('/api/departments')
+      .then((response) => setDepartments(response.data))
+      .catch((err) => console.error('Error fetching departments:', err));
+  }, [isAdmin]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+
+    axios.get('/api/calendar', {
+      params: {
+        startDate: startKey,
+        endDate: endKey,
+        scope,
+        department: department || undefined,
+      },
+    })
+      .then((response) => {
+        if (!cancelled) setCalendar(response.data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.response?.data?.message || 'Failed to load calendar');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startKey, endKey, scope, department]);
+
+  const days: Dayjs[] = [];
+  for (let day = rangeStart; !day.isAfter(rangeEnd, 'day'); day = day.add(1, 'day')) {
+    days.push(day);
+  }
+
+  const holidayOn = (key: string) => calendar?.holidays.find((holiday) => holiday.date === key);
+
+  // Leave dates are stored as midnight UTC, so compare calendar dates only
+  const absencesOn = (key: string) => (calendar?.absences || []).filter((absence) =>
+    absence.startDate.slice(0, 10) <= key && absence.endDate.slice(0, 10) >= key);
+
+  const describeAbsence = (absence: Absence) => {
+    const part = absence.durationType === 'half_day'
+      ? ` (${absence.halfDayPeriod === 'second_half' ? 'second' : 'first'} half)`
+      : absence.durationType === 'hourly' ? ` (${absence.hours}h)` : '';
+    return `${absence.employee.name}: ${absence.leaveType}${part}, ${absence.status}`;
+  };
+
+  const move = (direction: number) => {
+    setAnchor(anchor.add(direction, view));
+  };
+
+  const title = view === 'month'
+    ? anchor.format('MMMM YYYY')
+    : `${rangeStart.format('D MMM')} – ${rangeEnd.format('D MMM YYYY')}`;
+
+  return (
+    <Container maxWidth="xl">
+      <Paper sx={{ p: 4, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          Leave Calendar
+        </Typography>
+
+        <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mb={3}>
+          <Box display="flex" alignItems="center" gap={1}>
+            <Button size="small" onClick={() => move(-1)}>
+              <ChevronLeft />
+            </Button>
+            <Button size="small" variant="outlined" onClick={() => setAnchor(dayjs())}>
+              Today
+            </Button>
+            <Button size="small" onClick={() => move(1)}>
+              <ChevronRight />
+            </Button>
+            <Typography variant="h6" sx={{ ml: 1, minWidth: 200 }}>
+              {title}
+            </Typography>
+          </Box>
+
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={view}
+            onChange={(_, value) => value && setView(value)}
+          >
+            <ToggleButton value="month">Month</ToggleButton>
+            <ToggleButton value="week">Week</ToggleButton>
+          </ToggleButtonGroup>
+
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Show</InputLabel>
+            <Select value={scope} label="Show" onChange={(e) => setScope(e.target.value)}>
+              <MenuItem value="team">My Team</MenuItem>
+              <MenuItem value="department">{isAdmin ? 'Department' : 'My Department'}</MenuItem>
+              {isAdmin && <MenuItem value="organisation">Organisation</MenuItem>}
+            </Select>
+          </FormControl>
+
+          {isAdmin && scope !== 'team' && (
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel>Department</InputLabel>
+              <Select value={department} label="Department" onChange={(e) => setDepartment(e.target.value)}>
+                <MenuItem value="">{scope === 'department' ? 'My Department' : 'All Departments'}</MenuItem>
+                {departments.map((option) => (
+                  <MenuItem key={option._id} value={option._id}>
+                    {option.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          {loading && <CircularProgress size={24} />}
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box display="flex" flexWrap="wrap" gap={1} mb={2}>
+          {Object.entries(leaveTypeColors).map(([leaveType, color]) => (
+            <Chip key={leaveType} label={leaveType} size="small" sx={{ bgcolor: color, color: '#fff' }} />
+          ))}
+          <Chip label="pending" size="small" variant="outlined" />
+          <Chip label="holiday" size="small" sx={{ bgcolor: '#fff3e0' }} />
+        </Box>
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', border: 1, borderColor: 'divider' }}>
+          {weekdayLabels.map((label) => (
+            <Box key={label} sx={{ p: 1, borderBottom: 1, borderColor: 'divider', bgcolor: 'grey.100' }}>
+              <Typography variant="caption" fontWeight="bold">
+                {label}
+              </Typography>
+            </Box>
+          ))}
+
+          {days.map((day) => {
+            const key = day.format('YYYY-MM-DD');
+            const holiday = holidayOn(key);
+            const isWeekend = (calendar?.weekendDays || [0, 6]).includes(day.day());
+            const dayAbsences = absencesOn(key);
+            const shown = view === 'month' ? dayAbsences.slice(0, MONTH_VIEW_LIMIT) : dayAbsences;
+
+            return (
+              <Box
+                key={key}
+                sx={{
+                  minHeight: view === 'month' ? 110 : 220,
+                  p: 0.5,
+                  borderRight: 1,
+                  borderBottom: 1,
+                  borderColor: 'divider',
+                  bgcolor: holiday ? '#fff3e0' : isWeekend ? 'grey.50' : 'background.paper',
+                  opacity: view === 'month' && day.month() !== anchor.month() ? 0.5 : 1,
+                }}
+              >
+                <Typography
+                  variant="caption"
+                  fontWeight={day.isSame(dayjs(), 'day') ? 'bold' : 'normal'}
+                  color={day.isSame(dayjs(), 'day') ? 'primary' : 'text.secondary'}
+                >
+                  {view === 'month' ? day.date() : day.format('ddd D MMM')}
+                </Typography>
+                {holiday && (
+                  <Typography variant="caption" display="block" color="warning.dark" noWrap>
+                    {holiday.name}
+                  </Typography>
+                )}
+                <Box display="flex" flexDirection="column" gap={0.5} mt={0.5}>
+                  {shown.map((absence) => (
+                    <Tooltip key={absence._id} title={describeAbsence(absence)}>
+                      <Chip
+                        label={absence.employee.name}
+                        size="small"
+                        variant={absence.status === 'pending' ? 'outlined' : 'filled'}
+                        onClick={absence.employee._id === user?.id || isAdmin
+                          ? () => navigate(`/leave-requests/${absence._id}`)
+                          : undefined}
+                        sx={absence.status === 'pending'
+                          ? { borderColor: leaveTypeColors[absence.leaveType], color: leaveTypeColors[absence.leaveType] }
+                          : { bgcolor: leaveTypeColors[absence.leaveType], color: '#fff' }}
+                      />
+                    </Tooltip>
+                  ))}
+                  {dayAbsences.length > shown.length && (
+                    <Typography variant="caption" color="text.secondary">
+                      +{dayAbsences.length - shown.length} more
+                    </Typography>
+                  )}
+                </Box>
+              </Box>
+            );
+          })}
+        </Box>
+      </Paper>
+    </Container>
+  );
+};
+
+export default LeaveCalendar;
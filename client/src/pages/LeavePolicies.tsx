@@ -0,0 +1,625 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+  Alert,
+  IconButton,
+} from '@mui/material';
+import { Add, Edit, Delete, PlaylistAdd, EventRepeat } from '@mui/icons-material';
+import axios from 'axios';
+
+interface Policy {
+  _id: string;
+  name: string;
+  leaveType: string;
+  days: number;
+  accrualFrequency: string;
+  maxBorrowDays: number;
+  carryForwardCap: number;
+  role?: string;
+  department?: {
+    _id: string;
+    name: string;
+  };
+  position?: string;
+}
+
+interface Department {
+  _id: string;
+  name: string;
+}
+
+interface CarryForwardItem {
+  employee: {
+    _id: string;
+    name: string;
+    employeeId: string;
+  };
+  leaveType: string;
+  unused: number;
+  cap: number;
+  carried: number;
+}
+
+interface CarryForwardPreview {
+  items: CarryForwardItem[];
+  totalCarried: number;
+  alreadyCommitted: boolean;
+}
+
+const leaveTypes = [
+  { value: 'sick', label: 'Sick Leave' },
+  { value: 'vacation', label: 'Vacation' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'emergency', label: 'Emergency' },
+  { value: 'maternity', label: 'Maternity' },
+  { value: 'paternity', label: 'Paternity' },
+  { value: 'other', label: 'Other' },
+];
+
+const emptyForm = {
+  name: '',
+  leaveType: '',
+  days: '',
+  accrualFrequency: 'annual',
+  maxBorrowDays: '',
+  carryForwardCap: '',
+  role: '',
+  department: '',
+  position: '',
+};
+
+const LeavePolicies: React.FC = () => {
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [policyDialog, setPolicyDialog] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<Policy | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [generateDialog, setGenerateDialog] = useState(false);
+  const [academicYear, setAcademicYear] = useState(new Date().getFullYear().toString());
+  const [generating, setGenerating] = useState(false);
+  const [yearEndDialog, setYearEndDialog] = useState(false);
+  const [yearEnd, setYearEnd] = useState({
+    fromYear: (new Date().getFullYear() - 1).toString(),
+    toYear: new Date().getFullYear().toString(),
+    carryForwardExpiresAt: '',
+  });
+  const [preview, setPreview] = useState<CarryForwardPreview | null>(null);
+  const [closing, setClosing] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [policiesRes, departmentsRes, yearsRes, currentRes] = await Promise.all([
+        axios.get('/api/policies'),
+        axios.get('/api/departments'),
+        axios.get('/api/academic-years'),
+        axios.get('/api/academic-years/current'),
+      ]);
+
+      setPolicies(policiesRes.data);
+      setDepartments(departmentsRes.data);
+
+      // Default to the current academic year, closing the one before it
+      const currentLabel: string = currentRes.data.label;
+      const labels: string[] = yearsRes.data.map((year: { label: string }) => year.label);
+      const previousLabel = labels.length > 0
+        ? labels[labels.indexOf(currentLabel) + 1] || ''
+        : (Number(currentLabel) - 1).toString();
+      setAcademicYear(currentLabel);
+      setYearEnd((current) => ({ ...current, fromYear: previousLabel, toYear: currentLabel }));
+    } catch (error) {
+      console.error('Error fetching data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddPolicy = () => {
+    setEditingPolicy(null);
+    setFormData(emptyForm);
+    setPolicyDialog(true);
+  };
+
+  const handleEditPolicy = (policy: Policy) => {
+    setEditingPolicy(policy);
+    setFormData({
+      name: policy.name,
+      leaveType: policy.leaveType,
+      days: policy.days.toString(),
+      accrualFrequency: policy.accrualFrequency || 'annual',
+      maxBorrowDays: (policy.maxBorrowDays || 0).toString(),
+      carryForwardCap: (policy.carryForwardCap || 0).toString(),
+      role: policy.role || '',
+      department: policy.department?._id || '',
+      position: policy.position || '',
+    });
+    setPolicyDialog(true);
+  };
+
+  const handleSubmit = async () => {
+    setError('');
+    try {
+      if (editingPolicy) {
+        await axios.put(`/api/policies/${editingPolicy._id}`, formData);
+      } else {
+        await axios.post('/api/policies', formData);
+      }
+
+      setPolicyDialog(false);
+      fetchData();
+    } catch (err: any) {
+      console.error('Error saving policy:', err);
+      setError(err.response?.data?.message || 'Failed to save policy');
+    }
+  };
+
+  const handleDeletePolicy = async (policyId: string) => {
+    if (window.confirm('Are you sure you want to deactivate this policy?')) {
+      try {
+        await axios.delete(`/api/policies/${policyId}`);
+        fetchData();
+      } catch (error) {
+        console.error('Error deleting policy:', error);
+      }
+    }
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await axios.post('/api/policies/generate', { academicYear });
+      setMessage(response.data.message);
+      setGenerateDialog(false);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to generate balances');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const openYearEnd = () => {
+    setPreview(null);
+    setYearEndDialog(true);
+  };
+
+  const handlePreview = async () => {
+    setClosing(true);
+    setError('');
+    try {
+      const response = await axios.get('/api/year-end/preview', {
+        params: { fromYear: yearEnd.fromYear, toYear: yearEnd.toYear },
+      });
+      setPreview(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to preview year-end close');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleCommitYearEnd = async () => {
+    if (!window.confirm(`Close ${yearEnd.fromYear} and carry balances into ${yearEnd.toYear}?`)) return;
+
+    setClosing(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await axios.post('/api/year-end/commit', yearEnd);
+      setMessage(response.data.message);
+      setYearEndDialog(false);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to close academic year');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Paper sx={{ p: 4, mt: 4 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Typography variant="h4">
+            Leave Policies
+          </Typography>
+          <Box display="flex" gap={2}>
+            <Button
+              variant="outlined"
+              startIcon={<EventRepeat />}
+              onClick={openYearEnd}
+            >
+              Year-End Close
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<PlaylistAdd />}
+              onClick={() => setGenerateDialog(true)}
+            >
+              Generate Balances
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={handleAddPolicy}
+            >
+              Add Policy
+            </Button>
+          </Box>
+        </Box>
+
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {message}
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {policies.length === 0 ? (
+          <Alert severity="info">
+            No allocation policies found.
+          </Alert>
+        ) : (
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Leave Type</TableCell>
+                  <TableCell>Days</TableCell>
+                  <TableCell>Accrual</TableCell>
+                  <TableCell>Carry-Forward Cap</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell>Department</TableCell>
+                  <TableCell>Position</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {policies.map((policy) => (
+                  <TableRow key={policy._id}>
+                    <TableCell>
+                      <Typography variant="subtitle2">
+                        {policy.name}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{policy.leaveType}</TableCell>
+                    <TableCell>{policy.days}</TableCell>
+                    <TableCell>
+                      {policy.accrualFrequency || 'annual'}
+                      {policy.maxBorrowDays > 0 && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          Borrow up to {policy.maxBorrowDays} days
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{policy.carryForwardCap || 0}</TableCell>
+                    <TableCell>{policy.role || 'Any'}</TableCell>
+                    <TableCell>{policy.department?.name || 'Any'}</TableCell>
+                    <TableCell>{policy.position || 'Any'}</TableCell>
+                    <TableCell>
+                      <Box display="flex" gap={1}>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEditPolicy(policy)}
+                        >
+                          <Edit />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeletePolicy(policy._id)}
+                        >
+                          <Delete />
+                        </IconButton>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Policy Dialog */}
+        <Dialog open={policyDialog} onClose={() => setPolicyDialog(false)} maxWidth="md" fullWidth>
+          <DialogTitle>
+            {editingPolicy ? 'Edit Policy' : 'Add New Policy'}
+          </DialogTitle>
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <TextField
+                    fullWidth
+                    label="Policy Name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  />
+                </Box>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Leave Type</InputLabel>
+                    <Select
+                      value={formData.leaveType}
+                      onChange={(e) => setFormData({ ...formData, leaveType: e.target.value })}
+                      label="Leave Type"
+                    >
+                      {leaveTypes.map((type) => (
+                        <MenuItem key={type.value} value={type.value}>
+                          {type.label}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+              </Box>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <TextField
+                    fullWidth
+                    label="Days per Year"
+                    type="number"
+                    value={formData.days}
+                    onChange={(e) => setFormData({ ...formData, days: e.target.value })}
+                  />
+                </Box>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Accrual</InputLabel>
+                    <Select
+                      value={formData.accrualFrequency}
+                      onChange={(e) => setFormData({ ...formData, accrualFrequency: e.target.value })}
+                      label="Accrual"
+                    >
+                      <MenuItem value="annual">Full allocation at start of year</MenuItem>
+                      <MenuItem value="monthly">Accrue monthly</MenuItem>
+                      <MenuItem value="quarterly">Accrue quarterly</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+              </Box>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <TextField
+                    fullWidth
+                    label="Borrowing Limit"
+                    type="number"
+                    helperText="Days that may be booked ahead of accrual"
+                    disabled={formData.accrualFrequency === 'annual'}
+                    value={formData.maxBorrowDays}
+                    onChange={(e) => setFormData({ ...formData, maxBorrowDays: e.target.value })}
+                  />
+                </Box>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <TextField
+                    fullWidth
+                    label="Carry-Forward Cap"
+                    type="number"
+                    helperText="Unused days that may roll into the next year (0 resets)"
+                    value={formData.carryForwardCap}
+                    onChange={(e) => setFormData({ ...formData, carryForwardCap: e.target.value })}
+                  />
+                </Box>
+              </Box>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Role</InputLabel>
+                    <Select
+                      value={formData.role}
+                      onChange={(e) => setFormData({ ...formData, role: e.target.value })}
+                      label="Role"
+                    >
+                      <MenuItem value="">Any Role</MenuItem>
+                      <MenuItem value="employee">Employee</MenuItem>
+                      <MenuItem value="manager">Manager</MenuItem>
+                      <MenuItem value="coordinator">Coordinator</MenuItem>
+                      <MenuItem value="admin">Admin</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Department</InputLabel>
+                    <Select
+                      value={formData.department}
+                      onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                      label="Department"
+                    >
+                      <MenuItem value="">Any Department</MenuItem>
+                      {departments.map((dept) => (
+                        <MenuItem key={dept._id} value={dept._id}>
+                          {dept.name}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+              </Box>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <TextField
+                    fullWidth
+                    label="Position"
+                    helperText="Leave empty to apply to any position"
+                    value={formData.position}
+                    onChange={(e) => setFormData({ ...formData, position: e.target.value })}
+                  />
+                </Box>
+              </Box>
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setPolicyDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} variant="contained">
+              {editingPolicy ? 'Update' : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Generate Balances Dialog */}
+        <Dialog open={generateDialog} onClose={() => setGenerateDialog(false)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            Generate Leave Balances
+          </DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Allocates leave to every active user from the policies above. Running it again
+              only applies policy changes.
+            </Typography>
+            <TextField
+              fullWidth
+              label="Academic Year"
+              value={academicYear}
+              onChange={(e) => setAcademicYear(e.target.value)}
+              sx={{ mt: 2 }}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setGenerateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleGenerate}
+              variant="contained"
+              disabled={generating || !academicYear}
+            >
+              {generating ? <CircularProgress size={20} /> : 'Generate'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Year-End Close Dialog */}
+        <Dialog open={yearEndDialog} onClose={() => setYearEndDialog(false)} maxWidth="md" fullWidth>
+          <DialogTitle>
+            Year-End Close
+          </DialogTitle>
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3, mt: 1 }}>
+              <Box sx={{ flex: '1 1 150px' }}>
+                <TextField
+                  fullWidth
+                  label="Close Academic Year"
+                  value={yearEnd.fromYear}
+                  onChange={(e) => setYearEnd({ ...yearEnd, fromYear: e.target.value })}
+                />
+              </Box>
+              <Box sx={{ flex: '1 1 150px' }}>
+                <TextField
+                  fullWidth
+                  label="Carry Into"
+                  value={yearEnd.toYear}
+                  onChange={(e) => setYearEnd({ ...yearEnd, toYear: e.target.value })}
+                />
+              </Box>
+              <Box sx={{ flex: '1 1 200px' }}>
+                <TextField
+                  fullWidth
+                  type="date"
+                  label="Carried Days Expire On"
+                  InputLabelProps={{ shrink: true }}
+                  value={yearEnd.carryForwardExpiresAt}
+                  onChange={(e) => setYearEnd({ ...yearEnd, carryForwardExpiresAt: e.target.value })}
+                />
+              </Box>
+            </Box>
+
+            {preview && (
+              <Box sx={{ mt: 3 }}>
+                {preview.alreadyCommitted && (
+                  <Alert severity="warning" sx={{ mb: 2 }}>
+                    {yearEnd.fromYear} has already been closed; committing again changes nothing.
+                  </Alert>
+                )}
+                <Typography variant="subtitle1" gutterBottom>
+                  {preview.totalCarried} days will be carried forward
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Employee</TableCell>
+                      <TableCell>Leave Type</TableCell>
+                      <TableCell align="right">Unused</TableCell>
+                      <TableCell align="right">Cap</TableCell>
+                      <TableCell align="right">Carried</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {preview.items.map((item) => (
+                      <TableRow key={`${item.employee._id}-${item.leaveType}`}>
+                        <TableCell>{item.employee.name} ({item.employee.employeeId})</TableCell>
+                        <TableCell>{item.leaveType}</TableCell>
+                        <TableCell align="right">{item.unused}</TableCell>
+                        <TableCell align="right">{item.cap}</TableCell>
+                        <TableCell align="right">{item.carried}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setYearEndDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePreview} disabled={closing}>
+              Preview
+            </Button>
+            <Button
+              onClick={handleCommitYearEnd}
+              variant="contained"
+              disabled={closing || !preview}
+            >
+              {closing ? <CircularProgress size={20} /> : 'Commit'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Paper>
+    </Container>
+  );
+};
+
+export default LeavePolicies;
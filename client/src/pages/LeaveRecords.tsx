@@ -19,10 +19,14 @@ import {
   Button,
   CircularProgress,
   Alert,
+  Menu,
 } from '@mui/material';
-import { Search } from '@mui/icons-material';
+import { Search, Download } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
 import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
+import ApprovalChain, { ApprovalStep } from '../components/ApprovalChain';
+import { formatDuration } from '../utils/formatDuration';
 
 interface LeaveRecord {
   _id: string;
@@ -36,47 +40,99 @@ interface LeaveRecord {
   startDate: string;
   endDate: string;
   totalDays: number;
+  durationType?: string;
+  halfDayPeriod?: string;
+  hours?: number;
   reason: string;
   status: string;
-  managerApproval: {
-    status: string;
-    approvedBy?: {
-      name: string;
-    };
-    approvedAt?: string;
-    comments?: string;
-  };
-  coordinatorApproval: {
-    status: string;
-    approvedBy?: {
-      name: string;
-    };
-    approvedAt?: string;
-    comments?: string;
-  };
+  approvalSteps: ApprovalStep[];
   createdAt: string;
 }
 
+interface Department {
+  _id: string;
+  name: string;
+}
+
+const leaveTypes = ['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other'];
+const statuses = ['pending', 'approved', 'rejected', 'cancelled', 'superseded'];
+
 const LeaveRecords: React.FC = () => {
   const [records, setRecords] = useState<LeaveRecord[]>([]);
   const [loading, setLoading] = useState(true);
-  const [academicYear, setAcademicYear] = useState(new Date().getFullYear().toString());
+  const [academicYear, setAcademicYear] = useState('');
+  const [academicYears, setAcademicYears] = useState<string[]>([]);
   const [searchEmployee, setSearchEmployee] = useState('');
   const [filteredRecords, setFilteredRecords] = useState<LeaveRecord[]>([]);
+  const [status, setStatus] = useState('');
+  const [leaveType, setLeaveType] = useState('');
+  const [department, setDepartment] = useState('');
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [employeeId, setEmployeeId] = useState('');
+  // The employee ID the table was last loaded with, so exports match what is shown
+  const [appliedEmployeeId, setAppliedEmployeeId] = useState('');
+  const [exportMenu, setExportMenu] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const isStaff = !!user && ['manager', 'coordinator', 'admin'].includes(user.role);
+
+  useEffect(() => {
+    fetchAcademicYears();
+  }, []);
 
   useEffect(() => {
-    fetchLeaveRecords();
-  }, [academicYear]);
+    if (!isStaff) return;
+    axios.get('/api/departments')
+      .then((response) => setDepartments(response.data))
+      .catch((error) => console.error('Error fetching departments:', error));
+  }, [isStaff]);
+
+  useEffect(() => {
+    if (academicYear) fetchLeaveRecords();
+  }, [academicYear, status, leaveType, department, appliedEmployeeId]);
 
   useEffect(() => {
     filterRecords();
   }, [records, searchEmployee]);
 
+  // Offer the defined academic years; without any, fall back to recent calendar years
+  const fetchAcademicYears = async () => {
+    try {
+      const [yearsRes, currentRes] = await Promise.all([
+        axios.get('/api/academic-years'),
+        axios.get('/api/academic-years/current'),
+      ]);
+
+      const currentLabel: string = currentRes.data.label;
+      let labels: string[] = yearsRes.data.map((year: { label: string }) => year.label);
+      if (labels.length === 0) {
+        const thisYear = Number(currentLabel);
+        labels = [thisYear + 1, thisYear, thisYear - 1, thisYear - 2].map(String);
+      } else if (!labels.includes(currentLabel)) {
+        labels = [currentLabel, ...labels];
+      }
+
+      setAcademicYears(labels);
+      setAcademicYear(currentLabel);
+    } catch (error) {
+      console.error('Error fetching academic years:', error);
+      setLoading(false);
+    }
+  };
+
+  const recordFilters = () => ({
+    employeeId: appliedEmployeeId || undefined,
+    department: department || undefined,
+    status: status || undefined,
+    leaveType: leaveType || undefined,
+  });
+
   const fetchLeaveRecords = async () => {
     try {
       setLoading(true);
-      const response = await axios.get(`/api/leave/records/${academicYear}`);
+      const response = await axios.get(`/api/leave/records/${academicYear}`, { params: recordFilters() });
       setRecords(response.data);
     } catch (error) {
       console.error('Error fetching leave records:', error);
@@ -85,6 +141,42 @@ const LeaveRecords: React.FC = () => {
     }
   };
 
+  const refresh = () => {
+    if (employeeId.trim() !== appliedEmployeeId) {
+      setAppliedEmployeeId(employeeId.trim());
+    } else {
+      fetchLeaveRecords();
+    }
+  };
+
+  // Fetched through axios so the session cookie applies; the server streams the file
+  const exportRecords = async (format: 'csv' | 'xlsx') => {
+    setExportMenu(null);
+    setExporting(true);
+    setExportError('');
+
+    try {
+      const response = await axios.get(`/api/leave/records/${academicYear}/export`, {
+        params: { ...recordFilters(), format },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `leave-records-${academicYear}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      // Revoking straight away can cancel the download before the browser has started it
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Error exporting leave records:', error);
+      setExportError('Failed to export leave records');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const filterRecords = () => {
     if (!searchEmployee) {
       setFilteredRecords(records);
@@ -108,19 +200,6 @@ const LeaveRecords: React.FC = () => {
     }
   };
 
-  const getApprovalStatus = (record: LeaveRecord) => {
-    const managerStatus = record.managerApproval.status;
-    const coordinatorStatus = record.coordinatorApproval.status;
-    
-    if (managerStatus === 'rejected' || coordinatorStatus === 'rejected') {
-      return 'rejected';
-    }
-    if (managerStatus === 'approved' && coordinatorStatus === 'approved') {
-      return 'approved';
-    }
-    return 'pending';
-  };
-
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -145,13 +224,72 @@ const LeaveRecords: React.FC = () => {
                 onChange={(e) => setAcademicYear(e.target.value)}
                 label="Academic Year"
               >
-                <MenuItem value="2023">2023</MenuItem>
-                <MenuItem value="2024">2024</MenuItem>
-                <MenuItem value="2025">2025</MenuItem>
+                {academicYears.map((year) => (
+                  <MenuItem key={year} value={year}>
+                    {year}
+                  </MenuItem>
+                ))}
               </Select>
             </FormControl>
           </Box>
           
+          <Box sx={{ flex: '1 1 160px', minWidth: '160px' }}>
+            <FormControl fullWidth>
+              <InputLabel>Status</InputLabel>
+              <Select value={status} onChange={(e) => setStatus(e.target.value)} label="Status">
+                <MenuItem value="">All</MenuItem>
+                {statuses.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {option}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          <Box sx={{ flex: '1 1 160px', minWidth: '160px' }}>
+            <FormControl fullWidth>
+              <InputLabel>Leave Type</InputLabel>
+              <Select value={leaveType} onChange={(e) => setLeaveType(e.target.value)} label="Leave Type">
+                <MenuItem value="">All</MenuItem>
+                {leaveTypes.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {option}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          {isStaff && (
+            <>
+              <Box sx={{ flex: '1 1 200px', minWidth: '200px' }}>
+                <FormControl fullWidth>
+                  <InputLabel>Department</InputLabel>
+                  <Select value={department} onChange={(e) => setDepartment(e.target.value)} label="Department">
+                    <MenuItem value="">My Records</MenuItem>
+                    {departments.map((option) => (
+                      <MenuItem key={option._id} value={option._id}>
+                        {option.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+
+              <Box sx={{ flex: '1 1 160px', minWidth: '160px' }}>
+                <TextField
+                  fullWidth
+                  label="Employee ID"
+                  value={employeeId}
+                  onChange={(e) => setEmployeeId(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && refresh()}
+                  helperText="Overrides department"
+                />
+              </Box>
+            </>
+          )}
+
           <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
             <TextField
               fullWidth
@@ -167,14 +305,36 @@ const LeaveRecords: React.FC = () => {
           <Box sx={{ flex: '0 0 auto' }}>
             <Button
               variant="outlined"
-              onClick={fetchLeaveRecords}
+              onClick={refresh}
               sx={{ height: '56px' }}
             >
               Refresh
             </Button>
           </Box>
+
+          <Box sx={{ flex: '0 0 auto' }}>
+            <Button
+              variant="contained"
+              startIcon={exporting ? <CircularProgress size={16} color="inherit" /> : <Download />}
+              onClick={(e) => setExportMenu(e.currentTarget)}
+              disabled={exporting}
+              sx={{ height: '56px' }}
+            >
+              Export
+            </Button>
+            <Menu anchorEl={exportMenu} open={!!exportMenu} onClose={() => setExportMenu(null)}>
+              <MenuItem onClick={() => exportRecords('csv')}>CSV</MenuItem>
+              <MenuItem onClick={() => exportRecords('xlsx')}>Excel (XLSX)</MenuItem>
+            </Menu>
+          </Box>
         </Box>
 
+        {exportError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setExportError('')}>
+            {exportError}
+          </Alert>
+        )}
+
         {filteredRecords.length === 0 ? (
           <Alert severity="info">
             No leave records found for the selected criteria.
@@ -190,9 +350,9 @@ const LeaveRecords: React.FC = () => {
                   <TableCell>End Date</TableCell>
                   <TableCell>Days</TableCell>
                   <TableCell>Status</TableCell>
-                  <TableCell>Manager Approval</TableCell>
-                  <TableCell>Coordinator Approval</TableCell>
+                  <TableCell>Approvals</TableCell>
                   <TableCell>Applied Date</TableCell>
+                  <TableCell>Actions</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
@@ -215,44 +375,24 @@ const LeaveRecords: React.FC = () => {
                     <TableCell>
                       {new Date(record.endDate).toLocaleDateString()}
                     </TableCell>
-                    <TableCell>{record.totalDays}</TableCell>
+                    <TableCell>{formatDuration(record)}</TableCell>
                     <TableCell>
                       <Chip
-                        label={getApprovalStatus(record)}
-                        color={getStatusColor(getApprovalStatus(record)) as any}
+                        label={record.status}
+                        color={getStatusColor(record.status) as any}
                         size="small"
                       />
                     </TableCell>
                     <TableCell>
-                      <Box>
-                        <Chip
-                          label={record.managerApproval.status}
-                          color={getStatusColor(record.managerApproval.status) as any}
-                          size="small"
-                        />
-                        {record.managerApproval.approvedBy && (
-                          <Typography variant="caption" display="block">
-                            by {record.managerApproval.approvedBy.name}
-                          </Typography>
-                        )}
-                      </Box>
+                      <ApprovalChain steps={record.approvalSteps} />
                     </TableCell>
                     <TableCell>
-                      <Box>
-                        <Chip
-                          label={record.coordinatorApproval.status}
-                          color={getStatusColor(record.coordinatorApproval.status) as any}
-                          size="small"
-                        />
-                        {record.coordinatorApproval.approvedBy && (
-                          <Typography variant="caption" display="block">
-                            by {record.coordinatorApproval.approvedBy.name}
-                          </Typography>
-                        )}
-                      </Box>
+                      {new Date(record.createdAt).toLocaleDateString()}
                     </TableCell>
                     <TableCell>
-                      {new Date(record.createdAt).toLocaleDateString()}
+                      <Button size="small" onClick={() => navigate(`/leave-requests/${record._id}`)}>
+                        Details
+                      </Button>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -13,7 +13,10 @@ import {
   MenuItem,
   Alert,
   CircularProgress,
+  Chip,
 } from '@mui/material';
+import { AttachFile } from '@mui/icons-material';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
@@ -22,11 +25,43 @@ import axios from 'axios';
 
 interface LeaveRequestForm {
   leaveType: string;
+  durationType: string;
+  halfDayPeriod: string;
+  hours: string;
   startDate: Dayjs | null;
   endDate: Dayjs | null;
   reason: string;
 }
 
+interface WorkingDaysPreview {
+  totalDays: number;
+  calendarDays: number;
+  weekendDays: number;
+  holidays: {
+    date: string;
+    name: string;
+  }[];
+  yearAllocations: {
+    academicYear: string;
+    days: number;
+  }[];
+}
+
+interface RequestValidation {
+  valid: boolean;
+  message?: string;
+  conflicts: {
+    _id: string;
+    leaveType: string;
+    startDate: string;
+    endDate: string;
+    status: string;
+  }[];
+  violations: {
+    rule: string;
+    message: string;
+  }[];
+}
 
 const leaveTypes = [
   { value: 'sick', label: 'Sick Leave' },
@@ -38,10 +73,35 @@ const leaveTypes = [
   { value: 'other', label: 'Other' },
 ];
 
+const durationTypes = [
+  { value: 'full_day', label: 'Full Day(s)' },
+  { value: 'half_day', label: 'Half Day' },
+  { value: 'hourly', label: 'Hours' },
+];
+
+interface AmendedRequest {
+  _id: string;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  durationType?: string;
+  halfDayPeriod?: string;
+  hours?: number;
+  reason: string;
+  status: string;
+}
+
 const LeaveRequest: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const amendId = searchParams.get('amend');
+  const navigate = useNavigate();
+  const [original, setOriginal] = useState<AmendedRequest | null>(null);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
+  const [workingDays, setWorkingDays] = useState<WorkingDaysPreview | null>(null);
+  const [validation, setValidation] = useState<RequestValidation | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
 
   const {
     control,
@@ -52,50 +112,131 @@ const LeaveRequest: React.FC = () => {
   } = useForm<LeaveRequestForm>({
     defaultValues: {
       leaveType: '',
+      durationType: 'full_day',
+      halfDayPeriod: 'first_half',
+      hours: '',
       startDate: null,
       endDate: null,
       reason: '',
     },
   });
 
+  // Amending an approved request starts from its current details
+  useEffect(() => {
+    setOriginal(null);
+    if (!amendId) return;
+
+    axios.get(`/api/leave/request/${amendId}`)
+      .then((response) => {
+        const request: AmendedRequest = response.data;
+        setOriginal(request);
+        setValue('leaveType', request.leaveType);
+        setValue('durationType', request.durationType || 'full_day');
+        setValue('halfDayPeriod', request.halfDayPeriod || 'first_half');
+        setValue('hours', request.hours ? String(request.hours) : '');
+        setValue('startDate', dayjs(request.startDate.slice(0, 10)));
+        setValue('endDate', dayjs(request.endDate.slice(0, 10)));
+        setValue('reason', request.reason);
+      })
+      .catch((err) => {
+        setError(err.response?.data?.message || 'Failed to load the leave request to amend');
+      });
+  }, [amendId, setValue]);
+
+  const leaveType = watch('leaveType');
+  const durationType = watch('durationType');
+  const halfDayPeriod = watch('halfDayPeriod');
+  const hours = watch('hours');
   const startDate = watch('startDate');
   const endDate = watch('endDate');
+  const isPartialDay = durationType !== 'full_day';
 
-  // Calculate total days when dates change
+  // Half-day and hourly leave are for a single day
+  const effectiveEndDate = isPartialDay ? startDate : endDate;
+
+  // Ask the server for the chargeable working days, and whether the dates clash with
+  // another request, when dates change
   useEffect(() => {
-    if (startDate && endDate) {
-      const days = endDate.diff(startDate, 'day') + 1;
-      if (days < 0) {
-        setError('End date must be after start date');
-      } else {
-        setError('');
-      }
+    setWorkingDays(null);
+    setValidation(null);
+    if (!startDate || !effectiveEndDate) return;
+    if (durationType === 'hourly' && !(Number(hours) > 0)) return;
+
+    if (effectiveEndDate.isBefore(startDate, 'day')) {
+      setError('End date must be on or after start date');
+      return;
     }
-  }, [startDate, endDate]);
+    setError('');
+
+    let cancelled = false;
+    const params = {
+      leaveType: leaveType || undefined,
+      startDate: startDate.format('YYYY-MM-DD'),
+      endDate: effectiveEndDate.format('YYYY-MM-DD'),
+      durationType,
+      halfDayPeriod: durationType === 'half_day' ? halfDayPeriod : undefined,
+      hours: durationType === 'hourly' ? hours : undefined,
+    };
+
+    axios.get('/api/leave/working-days', { params })
+      .then((response) => {
+        if (!cancelled) setWorkingDays(response.data);
+      })
+      .catch((err) => {
+        console.error('Error fetching working days:', err);
+      });
+
+    axios.post('/api/leave/validate', { ...params, amendmentOf: amendId || undefined })
+      .then((response) => {
+        if (!cancelled) setValidation(response.data);
+      })
+      .catch((err) => {
+        console.error('Error validating leave request:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [leaveType, startDate, effectiveEndDate, durationType, halfDayPeriod, hours, amendId]);
 
   const onSubmit = async (data: LeaveRequestForm) => {
-    if (!data.startDate || !data.endDate) return;
+    const requestEndDate = data.durationType === 'full_day' ? data.endDate : data.startDate;
+    if (!data.startDate || !requestEndDate) return;
 
     setLoading(true);
     setError('');
     setMessage('');
 
     try {
-      const response = await axios.post('/api/leave/request', {
-        leaveType: data.leaveType,
-        startDate: data.startDate.toISOString(),
-        endDate: data.endDate.toISOString(),
-        reason: data.reason,
-        academicYear: new Date().getFullYear().toString(),
-      });
+      // Sent as multipart so supporting documents can go with the request
+      const formData = new FormData();
+      formData.append('leaveType', data.leaveType);
+      formData.append('startDate', data.startDate.format('YYYY-MM-DD'));
+      formData.append('endDate', requestEndDate.format('YYYY-MM-DD'));
+      formData.append('durationType', data.durationType);
+      if (data.durationType === 'half_day') formData.append('halfDayPeriod', data.halfDayPeriod);
+      if (data.durationType === 'hourly') formData.append('hours', data.hours);
+      formData.append('reason', data.reason);
+      files.forEach((file) => formData.append('attachments', file));
+
+      if (amendId) {
+        const response = await axios.post(`/api/leave/request/${amendId}/amend`, formData);
+        navigate(`/leave-requests/${response.data.leaveRequest._id}`);
+        return;
+      }
+
+      const response = await axios.post('/api/leave/request', formData);
 
       setMessage('Leave request submitted successfully!');
       
       // Reset form
       setValue('leaveType', '');
+      setValue('durationType', 'full_day');
+      setValue('hours', '');
       setValue('startDate', null);
       setValue('endDate', null);
       setValue('reason', '');
+      setFiles([]);
     } catch (err: any) {
       setError(err.response?.data?.message || 'Failed to submit leave request');
     } finally {
@@ -103,15 +244,30 @@ const LeaveRequest: React.FC = () => {
     }
   };
 
-  const totalDays = startDate && endDate ? endDate.diff(startDate, 'day') + 1 : 0;
+  const describeExclusions = (preview: WorkingDaysPreview) => {
+    const parts = [];
+    if (preview.weekendDays > 0) {
+      parts.push(`${preview.weekendDays} weekend day${preview.weekendDays === 1 ? '' : 's'}`);
+    }
+    if (preview.holidays.length > 0) {
+      parts.push(`${preview.holidays.length} holiday${preview.holidays.length === 1 ? '' : 's'} (${preview.holidays.map((holiday) => holiday.name).join(', ')})`);
+    }
+    return parts.length > 0 ? `Excludes ${parts.join(' and ')}` : '';
+  };
 
   return (
     <Container maxWidth="md">
       <Paper sx={{ p: 4, mt: 4 }}>
         <Typography variant="h4" gutterBottom>
-          Submit Leave Request
+          {amendId ? 'Amend Leave Request' : 'Submit Leave Request'}
         </Typography>
 
+        {original && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Your approved {original.leaveType} leave from {new Date(original.startDate).toLocaleDateString()} to {new Date(original.endDate).toLocaleDateString()} stays in place until this amendment is approved.
+          </Alert>
+        )}
+
         {message && (
           <Alert severity="success" sx={{ mb: 2 }}>
             {message}
@@ -124,6 +280,34 @@ const LeaveRequest: React.FC = () => {
           </Alert>
         )}
 
+        {validation && !validation.valid && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {validation.conflicts.length > 0 && (
+              <>
+                These dates overlap another of your leave requests:
+                <ul style={{ margin: 0 }}>
+                  {validation.conflicts.map((conflict) => (
+                    <li key={conflict._id}>
+                      {conflict.leaveType} ({conflict.status}): {new Date(conflict.startDate).toLocaleDateString()} – {new Date(conflict.endDate).toLocaleDateString()}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {validation.violations.length > 0 && (
+              <>
+                These dates break your department's leave rules:
+                <ul style={{ margin: 0 }}>
+                  {validation.violations.map((violation) => (
+                    <li key={violation.message}>{violation.message}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {validation.conflicts.length === 0 && validation.violations.length === 0 && validation.message}
+          </Alert>
+        )}
+
         <Box component="form" onSubmit={handleSubmit(onSubmit)}>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
@@ -152,54 +336,103 @@ const LeaveRequest: React.FC = () => {
                 </FormControl>
               </Box>
 
-              <Box sx={{ flex: '1 1 300px', minWidth: '300px', display: 'flex', alignItems: 'center' }}>
+              <Box sx={{ flex: '1 1 300px', minWidth: '300px', display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
                 <Typography variant="body2" color="text.secondary">
-                  Total Days: {totalDays > 0 ? totalDays : 'Select dates'}
+                  {isPartialDay ? 'Days Charged' : 'Working Days'}: {workingDays ? workingDays.totalDays : 'Select dates'}
                 </Typography>
+                {workingDays && describeExclusions(workingDays) && (
+                  <Typography variant="caption" color="text.secondary">
+                    {describeExclusions(workingDays)}
+                  </Typography>
+                )}
+                {workingDays && workingDays.yearAllocations.length > 1 && (
+                  <Typography variant="caption" color="text.secondary">
+                    Split across academic years: {workingDays.yearAllocations.map((allocation) => `${allocation.academicYear} (${allocation.days})`).join(', ')}
+                  </Typography>
+                )}
               </Box>
             </Box>
 
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
               <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
-                <LocalizationProvider dateAdapter={AdapterDayjs}>
+                <FormControl fullWidth>
+                  <InputLabel>Duration</InputLabel>
                   <Controller
-                    name="startDate"
+                    name="durationType"
                     control={control}
-                    rules={{ required: 'Start date is required' }}
                     render={({ field }) => (
-                      <DatePicker
+                      <Select {...field} label="Duration">
+                        {durationTypes.map((type) => (
+                          <MenuItem key={type.value} value={type.value}>
+                            {type.label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    )}
+                  />
+                </FormControl>
+              </Box>
+
+              {durationType === 'half_day' && (
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Half</InputLabel>
+                    <Controller
+                      name="halfDayPeriod"
+                      control={control}
+                      render={({ field }) => (
+                        <Select {...field} label="Half">
+                          <MenuItem value="first_half">First Half</MenuItem>
+                          <MenuItem value="second_half">Second Half</MenuItem>
+                        </Select>
+                      )}
+                    />
+                  </FormControl>
+                </Box>
+              )}
+
+              {durationType === 'hourly' && (
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <Controller
+                    name="hours"
+                    control={control}
+                    rules={{
+                      required: 'Hours are required',
+                      validate: (value) => Number(value) > 0 || 'Hours must be greater than 0',
+                    }}
+                    render={({ field }) => (
+                      <TextField
                         {...field}
-                        label="Start Date"
-                        minDate={dayjs()}
-                        slotProps={{
-                          textField: {
-                            fullWidth: true,
-                            error: !!errors.startDate,
-                            helperText: errors.startDate?.message,
-                          },
-                        }}
+                        type="number"
+                        label="Hours"
+                        fullWidth
+                        inputProps={{ min: 0.5, step: 0.5 }}
+                        error={!!errors.hours}
+                        helperText={errors.hours?.message}
                       />
                     )}
                   />
-                </LocalizationProvider>
-              </Box>
+                </Box>
+              )}
+            </Box>
 
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
               <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
                 <LocalizationProvider dateAdapter={AdapterDayjs}>
                   <Controller
-                    name="endDate"
+                    name="startDate"
                     control={control}
-                    rules={{ required: 'End date is required' }}
+                    rules={{ required: 'Start date is required' }}
                     render={({ field }) => (
                       <DatePicker
                         {...field}
-                        label="End Date"
-                        minDate={startDate || dayjs()}
+                        label={isPartialDay ? 'Date' : 'Start Date'}
+                        minDate={original && dayjs(original.startDate).isBefore(dayjs(), 'day') ? dayjs(original.startDate) : dayjs()}
                         slotProps={{
                           textField: {
                             fullWidth: true,
-                            error: !!errors.endDate,
-                            helperText: errors.endDate?.message,
+                            error: !!errors.startDate,
+                            helperText: errors.startDate?.message,
                           },
                         }}
                       />
@@ -207,6 +440,32 @@ const LeaveRequest: React.FC = () => {
                   />
                 </LocalizationProvider>
               </Box>
+
+              {!isPartialDay && (
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <LocalizationProvider dateAdapter={AdapterDayjs}>
+                    <Controller
+                      name="endDate"
+                      control={control}
+                      rules={{ validate: (value) => !!value || durationType !== 'full_day' || 'End date is required' }}
+                      render={({ field }) => (
+                        <DatePicker
+                          {...field}
+                          label="End Date"
+                          minDate={startDate || dayjs()}
+                          slotProps={{
+                            textField: {
+                              fullWidth: true,
+                              error: !!errors.endDate,
+                              helperText: errors.endDate?.message,
+                            },
+                          }}
+                        />
+                      )}
+                    />
+                  </LocalizationProvider>
+                </Box>
+              )}
             </Box>
 
             <Box>
@@ -228,15 +487,50 @@ const LeaveRequest: React.FC = () => {
               />
             </Box>
 
+            <Box>
+              <Button
+                component="label"
+                variant="outlined"
+                startIcon={<AttachFile />}
+              >
+                Attach Documents
+                <input
+                  hidden
+                  multiple
+                  type="file"
+                  accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                  onChange={(e) => {
+                    setFiles([...files, ...Array.from(e.target.files || [])]);
+                    e.target.value = '';
+                  }}
+                />
+              </Button>
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                Optional, e.g. a medical certificate. PDF, image or Word files up to 5 MB.
+              </Typography>
+              {files.length > 0 && (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+                  {files.map((file, index) => (
+                    <Chip
+                      key={`${file.name}-${index}`}
+                      label={file.name}
+                      onDelete={() => setFiles(files.filter((_, i) => i !== index))}
+                      size="small"
+                    />
+                  ))}
+                </Box>
+              )}
+            </Box>
+
             <Box>
               <Button
                 type="submit"
                 variant="contained"
                 size="large"
-                disabled={loading}
+                disabled={loading || (!!validation && !validation.valid) || (!!amendId && !original)}
                 sx={{ mt: 2 }}
               >
-                {loading ? <CircularProgress size={24} /> : 'Submit Request'}
+                {loading ? <CircularProgress size={24} /> : amendId ? 'Submit Amendment' : 'Submit Request'}
               </Button>
             </Box>
           </Box>
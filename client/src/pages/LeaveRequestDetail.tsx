@@ -0,0 +1,659 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Chip,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+  Alert,
+  Link,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import { AttachFile, Download } from '@mui/icons-material';
+import axios from 'axios';
+import dayjs from 'dayjs';
+import { useAuth } from '../contexts/AuthContext';
+import ApprovalChain, { ApprovalStep } from '../components/ApprovalChain';
+import { formatDuration } from '../utils/formatDuration';
+
+interface Attachment {
+  _id: string;
+  originalName: string;
+  mimeType?: string;
+  size?: number;
+  uploadedBy?: {
+    name: string;
+  };
+  uploadedAt?: string;
+}
+
+interface LinkedRequest {
+  _id: string;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+  status: string;
+}
+
+interface LeaveRequestDetails {
+  _id: string;
+  employee: {
+    _id: string;
+    name: string;
+    email: string;
+    employeeId: string;
+  };
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+  durationType?: string;
+  halfDayPeriod?: string;
+  hours?: number;
+  reason: string;
+  status: string;
+  approvalSteps: ApprovalStep[];
+  attachments: Attachment[];
+  amendmentOf?: LinkedRequest;
+  supersededBy?: LinkedRequest;
+  pendingAmendment?: LinkedRequest | null;
+  cancellationRequest?: {
+    status?: string;
+    returnDate?: string;
+    reason?: string;
+    assignedTo?: {
+      name: string;
+    };
+    decidedBy?: {
+      name: string;
+    };
+    comments?: string;
+    cancelledDays?: number;
+  };
+  informationRequest?: {
+    requestedBy?: {
+      name: string;
+    };
+    requestedAt?: string;
+  };
+  createdAt: string;
+}
+
+interface LeaveComment {
+  _id: string;
+  author: {
+    _id: string;
+    name: string;
+    role: string;
+  };
+  body: string;
+  requestsInformation: boolean;
+  createdAt: string;
+}
+
+interface LeaveEvent {
+  _id: string;
+  eventType: string;
+  actor?: {
+    name: string;
+  };
+  onBehalfOf?: {
+    name: string;
+  };
+  changes: {
+    field: string;
+    before?: any;
+    after?: any;
+  }[];
+  description?: string;
+  createdAt: string;
+}
+
+const eventLabels: Record<string, string> = {
+  submitted: 'Submitted',
+  stage_approved: 'Stage approved',
+  stage_rejected: 'Stage rejected',
+  escalated: 'Escalated',
+  amendment_requested: 'Amendment requested',
+  superseded: 'Superseded',
+  cancelled: 'Cancelled',
+  cancellation_requested: 'Cancellation requested',
+  cancellation_approved: 'Cancellation approved',
+  cancellation_rejected: 'Cancellation rejected',
+  attachment_added: 'Attachment added',
+  information_requested: 'Information requested',
+  information_provided: 'Information provided',
+};
+
+const LeaveRequestDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [request, setRequest] = useState<LeaveRequestDetails | null>(null);
+  const [history, setHistory] = useState<LeaveEvent[]>([]);
+  const [comments, setComments] = useState<LeaveComment[]>([]);
+  const [commentBody, setCommentBody] = useState('');
+  const [requestsInformation, setRequestsInformation] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [cancelDialog, setCancelDialog] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [returnDate, setReturnDate] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+
+  const fetchRequest = useCallback(async () => {
+    try {
+      const [response, historyResponse, commentsResponse] = await Promise.all([
+        axios.get(`/api/leave/request/${id}`),
+        axios.get(`/api/leave/request/${id}/history`),
+        axios.get(`/api/leave/request/${id}/comments`),
+      ]);
+      setRequest(response.data);
+      setHistory(historyResponse.data);
+      setComments(commentsResponse.data);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load leave request');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchRequest();
+  }, [fetchRequest]);
+
+  const uploadFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    setError('');
+    setMessage('');
+    try {
+      const formData = new FormData();
+      Array.from(files).forEach((file) => formData.append('attachments', file));
+      await axios.post(`/api/leave/request/${id}/attachments`, formData);
+
+      setMessage('Attachments uploaded successfully!');
+      fetchRequest();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to upload attachments');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const postComment = async () => {
+    setPosting(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await axios.post(`/api/leave/request/${id}/comments`, {
+        body: commentBody,
+        requestsInformation,
+      });
+      setMessage(response.data.message);
+      setCommentBody('');
+      setRequestsInformation(false);
+      fetchRequest();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  // Pending requests are withdrawn straight away; approved leave needs the manager's approval
+  const submitCancellation = async () => {
+    if (!request) return;
+
+    setCancelling(true);
+    setError('');
+    setMessage('');
+    try {
+      if (request.status === 'pending') {
+        await axios.put(`/api/leave/cancel/${request._id}`);
+        setMessage('Leave request cancelled successfully!');
+      } else {
+        const response = await axios.post(`/api/leave/request/${request._id}/cancellation`, {
+          reason: cancelReason,
+          returnDate: returnDate || undefined,
+        });
+        setMessage(response.data.message);
+      }
+      setCancelDialog(false);
+      fetchRequest();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to cancel leave request');
+      setCancelDialog(false);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Fetched through axios so the session cookie and access checks apply
+  const downloadAttachment = async (attachment: Attachment) => {
+    try {
+      const response = await axios.get(`/api/leave/request/${id}/attachments/${attachment._id}`, {
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.originalName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      // Revoking straight away can cancel the download before the browser has started it
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('Error downloading attachment:', err);
+      setError('Failed to download attachment');
+    }
+  };
+
+  // History values are stored as-is; dates come back as ISO strings
+  const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleDateString();
+    return String(value);
+  };
+
+  const describeChange = (change: LeaveEvent['changes'][number]) => {
+    if (change.before === null || change.before === undefined) {
+      return `${change.field}: ${formatValue(change.after)}`;
+    }
+    return `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  };
+
+  const formatSize = (size?: number) => {
+    if (!size) return '';
+    return size < 1024 * 1024 ? `${Math.ceil(size / 1024)} KB` : `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'pending': return 'warning';
+      case 'approved': return 'success';
+      case 'rejected': return 'error';
+      case 'cancelled': return 'default';
+      case 'superseded': return 'default';
+      default: return 'default';
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!request) {
+    return (
+      <Container maxWidth="md">
+        <Paper sx={{ p: 4, mt: 4 }}>
+          <Alert severity="error">{error || 'Leave request not found'}</Alert>
+        </Paper>
+      </Container>
+    );
+  }
+
+  const isOwnRequest = request.employee._id === user?.id;
+
+  // Leave already under way can only be cut short with a return date
+  const today = dayjs().format('YYYY-MM-DD');
+  const inProgress = request.startDate.slice(0, 10) <= today;
+  const cancellationPending = request.cancellationRequest?.status === 'pending';
+  const canCancel = isOwnRequest && (
+    request.status === 'pending' ||
+    (request.status === 'approved' && !cancellationPending && !request.pendingAmendment && request.endDate.slice(0, 10) >= today)
+  );
+
+  const describeLinked = (linked: LinkedRequest) => (
+    `${linked.leaveType} leave ${new Date(linked.startDate).toLocaleDateString()} - ${new Date(linked.endDate).toLocaleDateString()} (${linked.totalDays} days)`
+  );
+
+  return (
+    <Container maxWidth="md">
+      <Paper sx={{ p: 4, mt: 4 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Typography variant="h4">
+            {request.leaveType} leave
+          </Typography>
+          <Box display="flex" gap={1} alignItems="center">
+            {canCancel && (
+              <Button
+                size="small"
+                color="error"
+                variant="outlined"
+                onClick={() => {
+                  setCancelReason('');
+                  setReturnDate('');
+                  setCancelDialog(true);
+                }}
+              >
+                {request.status === 'pending' ? 'Cancel' : inProgress ? 'Return Early' : 'Request Cancellation'}
+              </Button>
+            )}
+            {isOwnRequest && request.status === 'approved' && !request.pendingAmendment && !cancellationPending && (
+              <Button size="small" variant="outlined" onClick={() => navigate(`/leave-request?amend=${request._id}`)}>
+                Amend
+              </Button>
+            )}
+            <Chip
+              label={request.status}
+              color={getStatusColor(request.status) as any}
+            />
+          </Box>
+        </Box>
+
+        {request.amendmentOf && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Amends{' '}
+            <Link component={RouterLink} to={`/leave-requests/${request.amendmentOf._id}`}>
+              {describeLinked(request.amendmentOf)}
+            </Link>
+            {request.status === 'pending' && ', which stays in place until this amendment is approved'}.
+          </Alert>
+        )}
+
+        {request.supersededBy && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Superseded by{' '}
+            <Link component={RouterLink} to={`/leave-requests/${request.supersededBy._id}`}>
+              {describeLinked(request.supersededBy)}
+            </Link>.
+          </Alert>
+        )}
+
+        {request.pendingAmendment && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            An amendment to{' '}
+            <Link component={RouterLink} to={`/leave-requests/${request.pendingAmendment._id}`}>
+              {describeLinked(request.pendingAmendment)}
+            </Link>{' '}
+            is awaiting approval.
+          </Alert>
+        )}
+
+        {request.informationRequest?.requestedAt && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {request.informationRequest.requestedBy?.name || 'An approver'} requested more information on{' '}
+            {new Date(request.informationRequest.requestedAt).toLocaleDateString()}.{' '}
+            {isOwnRequest ? 'Reply in the discussion below to resume the approval.' : 'Approval is on hold until the employee replies.'}
+          </Alert>
+        )}
+
+        {request.cancellationRequest?.status && (
+          <Alert
+            severity={request.cancellationRequest.status === 'rejected' ? 'warning' : 'info'}
+            sx={{ mb: 2 }}
+          >
+            {request.cancellationRequest.returnDate
+              ? `Early return on ${new Date(request.cancellationRequest.returnDate).toLocaleDateString()}`
+              : 'Cancellation'}{' '}
+            {request.cancellationRequest.status === 'pending'
+              ? `awaiting approval from ${request.cancellationRequest.assignedTo?.name || 'an admin'}.`
+              : `${request.cancellationRequest.status} by ${request.cancellationRequest.decidedBy?.name}.`}
+            {request.cancellationRequest.status === 'approved' && ` ${request.cancellationRequest.cancelledDays} days credited back.`}
+            {request.cancellationRequest.comments && ` Comments: ${request.cancellationRequest.comments}`}
+          </Alert>
+        )}
+
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {message}
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 3 }}>
+          <Typography variant="body2" color="text.secondary">
+            Employee: {request.employee.name} ({request.employee.employeeId})
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Dates: {new Date(request.startDate).toLocaleDateString()} - {new Date(request.endDate).toLocaleDateString()}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Duration: {formatDuration(request)} days
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Reason: {request.reason}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Applied: {new Date(request.createdAt).toLocaleDateString()}
+          </Typography>
+          <Box sx={{ mt: 1 }}>
+            <ApprovalChain steps={request.approvalSteps} />
+          </Box>
+        </Box>
+
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Attachments
+          </Typography>
+          {isOwnRequest && request.status !== 'cancelled' && (
+            <Button
+              component="label"
+              size="small"
+              startIcon={uploading ? <CircularProgress size={16} /> : <AttachFile />}
+              disabled={uploading}
+            >
+              Upload
+              <input
+                hidden
+                multiple
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                onChange={(e) => {
+                  uploadFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </Button>
+          )}
+        </Box>
+        {request.attachments.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No attachments.
+          </Typography>
+        ) : (
+          <List>
+            {request.attachments.map((attachment) => (
+              <ListItem
+                key={attachment._id}
+                divider
+                secondaryAction={
+                  <Button size="small" startIcon={<Download />} onClick={() => downloadAttachment(attachment)}>
+                    Download
+                  </Button>
+                }
+              >
+                <ListItemText
+                  primary={attachment.originalName}
+                  secondary={[
+                    formatSize(attachment.size),
+                    attachment.uploadedBy?.name,
+                    attachment.uploadedAt && new Date(attachment.uploadedAt).toLocaleDateString(),
+                  ].filter(Boolean).join(' • ')}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Typography variant="h6" sx={{ mt: 3 }}>
+          Discussion
+        </Typography>
+        {comments.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No comments yet.
+          </Typography>
+        ) : (
+          <List dense>
+            {comments.map((comment) => (
+              <ListItem key={comment._id} divider alignItems="flex-start">
+                <ListItemText
+                  primary={comment.body}
+                  secondary={
+                    `${comment.author.name}${comment.author._id === request.employee._id ? '' : ` (${comment.author.role})`} • ` +
+                    `${new Date(comment.createdAt).toLocaleString()}` +
+                    (comment.requestsInformation ? ' • information requested' : '')
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+          <TextField
+            label="Add a comment"
+            value={commentBody}
+            onChange={(e) => setCommentBody(e.target.value)}
+            multiline
+            rows={2}
+            fullWidth
+          />
+          <Box display="flex" justifyContent="space-between" alignItems="center">
+            {!isOwnRequest && request.status === 'pending' && !request.informationRequest?.requestedAt ? (
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={requestsInformation}
+                    onChange={(e) => setRequestsInformation(e.target.checked)}
+                  />
+                }
+                label="Request information from the employee (puts approval on hold)"
+              />
+            ) : <Box />}
+            <Button
+              variant="contained"
+              size="small"
+              onClick={postComment}
+              disabled={posting || !commentBody.trim()}
+            >
+              {posting ? <CircularProgress size={20} /> : 'Post'}
+            </Button>
+          </Box>
+        </Box>
+
+        <Typography variant="h6" sx={{ mt: 3 }}>
+          History
+        </Typography>
+        {history.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No recorded changes.
+          </Typography>
+        ) : (
+          <List dense>
+            {history.map((event) => (
+              <ListItem key={event._id} divider alignItems="flex-start">
+                <ListItemText
+                  primary={
+                    `${eventLabels[event.eventType] || event.eventType} by ${event.actor?.name || 'the system'}` +
+                    (event.onBehalfOf ? ` on behalf of ${event.onBehalfOf.name}` : '')
+                  }
+                  secondary={
+                    <>
+                      {new Date(event.createdAt).toLocaleString()}
+                      {event.changes.map((change) => (
+                        <Typography key={change.field} variant="caption" display="block" component="span">
+                          {describeChange(change)}
+                        </Typography>
+                      ))}
+                      {event.description && (
+                        <Typography variant="caption" display="block" component="span">
+                          {event.description}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Dialog open={cancelDialog} onClose={() => setCancelDialog(false)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            {request.status === 'pending' ? 'Cancel Leave Request' : inProgress ? 'Return Early' : 'Request Cancellation'}
+          </DialogTitle>
+          <DialogContent>
+            {request.status === 'pending' ? (
+              <Typography variant="body2">
+                This request has not been approved yet and will be withdrawn straight away.
+              </Typography>
+            ) : (
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+                <Typography variant="body2" color="text.secondary">
+                  {inProgress
+                    ? 'Your leave is under way. Choose the day you will be back at work; the remaining days are credited back once your manager approves.'
+                    : 'Your manager has to approve the cancellation; the days are credited back once they do.'}
+                </Typography>
+                {inProgress && (
+                  <TextField
+                    label="Return Date"
+                    type="date"
+                    value={returnDate}
+                    onChange={(e) => setReturnDate(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                    inputProps={{ min: today, max: request.endDate.slice(0, 10) }}
+                    required
+                    fullWidth
+                  />
+                )}
+                <TextField
+                  label="Reason"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  multiline
+                  rows={3}
+                  required
+                  fullWidth
+                />
+              </Box>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setCancelDialog(false)}>
+              Close
+            </Button>
+            <Button
+              onClick={submitCancellation}
+              color="error"
+              variant="contained"
+              disabled={cancelling || (request.status !== 'pending' && (!cancelReason.trim() || (inProgress && !returnDate)))}
+            >
+              {cancelling ? <CircularProgress size={20} /> : request.status === 'pending' ? 'Cancel Request' : 'Submit'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Paper>
+    </Container>
+  );
+};
+
+export default LeaveRequestDetail;
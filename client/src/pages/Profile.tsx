@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import {
   Container,
@@ -10,8 +10,17 @@ import {
   Avatar,
   Alert,
   CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Divider,
 } from '@mui/material';
 import { Person } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
 import { useAuth } from '../contexts/AuthContext';
 import axios from 'axios';
 
@@ -21,12 +30,64 @@ interface ProfileForm {
   position: string;
 }
 
+interface Delegation {
+  _id: string;
+  delegator?: {
+    _id: string;
+    name: string;
+  };
+  delegate?: {
+    _id: string;
+    name: string;
+  };
+  startDate: string;
+  endDate: string;
+  reason?: string;
+  leaveRequest?: {
+    _id: string;
+    leaveType: string;
+  };
+}
+
+interface DelegationSuggestion {
+  _id: string;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface DelegateCandidate {
+  _id: string;
+  name: string;
+  role: string;
+}
+
+interface FeedUrls {
+  personal: string;
+  department: string;
+}
+
+const emptyDelegationForm = {
+  delegate: '',
+  startDate: null as Dayjs | null,
+  endDate: null as Dayjs | null,
+  reason: '',
+  leaveRequest: '',
+};
 
 const Profile: React.FC = () => {
   const { user, login } = useAuth();
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
+  const [delegations, setDelegations] = useState<{ given: Delegation[]; received: Delegation[] }>({ given: [], received: [] });
+  const [suggestions, setSuggestions] = useState<DelegationSuggestion[]>([]);
+  const [candidates, setCandidates] = useState<DelegateCandidate[]>([]);
+  const [delegationForm, setDelegationForm] = useState(emptyDelegationForm);
+  const [delegationError, setDelegationError] = useState('');
+  const [feedUrls, setFeedUrls] = useState<FeedUrls | null>(null);
+  const [feedMessage, setFeedMessage] = useState('');
+  const canDelegate = !!user && ['manager', 'coordinator', 'admin'].includes(user.role);
 
   const {
     control,
@@ -40,6 +101,111 @@ const Profile: React.FC = () => {
     },
   });
 
+  useEffect(() => {
+    if (canDelegate) fetchDelegations();
+  }, [canDelegate]);
+
+  useEffect(() => {
+    axios.get('/api/calendar/feed-token')
+      .then((response) => setFeedUrls(response.data.urls))
+      .catch((err) => console.error('Error fetching calendar feed:', err));
+  }, []);
+
+  const fetchDelegations = async () => {
+    try {
+      const [delegationsRes, suggestionsRes, candidatesRes] = await Promise.all([
+        axios.get('/api/delegations'),
+        axios.get('/api/delegations/suggestions'),
+        axios.get('/api/delegations/candidates'),
+      ]);
+
+      setDelegations(delegationsRes.data);
+      setSuggestions(suggestionsRes.data);
+      setCandidates(candidatesRes.data);
+    } catch (err) {
+      console.error('Error fetching delegations:', err);
+    }
+  };
+
+  // Prefill the delegation form with the dates of an approved leave
+  const applySuggestion = (suggestion: DelegationSuggestion) => {
+    setDelegationForm({
+      ...emptyDelegationForm,
+      delegate: delegationForm.delegate,
+      startDate: dayjs(suggestion.startDate),
+      endDate: dayjs(suggestion.endDate),
+      reason: `On ${suggestion.leaveType} leave`,
+      leaveRequest: suggestion._id,
+    });
+  };
+
+  const submitDelegation = async () => {
+    if (!delegationForm.startDate || !delegationForm.endDate) return;
+    setDelegationError('');
+
+    try {
+      await axios.post('/api/delegations', {
+        delegate: delegationForm.delegate,
+        startDate: delegationForm.startDate.format('YYYY-MM-DD'),
+        endDate: delegationForm.endDate.format('YYYY-MM-DD'),
+        reason: delegationForm.reason,
+        leaveRequest: delegationForm.leaveRequest,
+      });
+
+      setDelegationForm(emptyDelegationForm);
+      fetchDelegations();
+    } catch (err: any) {
+      setDelegationError(err.response?.data?.message || err.response?.data?.errors?.[0]?.msg || 'Failed to save delegation');
+    }
+  };
+
+  const revokeDelegation = async (delegationId: string) => {
+    if (window.confirm('Are you sure you want to revoke this delegation?')) {
+      try {
+        await axios.delete(`/api/delegations/${delegationId}`);
+        fetchDelegations();
+      } catch (err) {
+        console.error('Error revoking delegation:', err);
+      }
+    }
+  };
+
+  // Creating new links stops the old ones working, so calendars subscribed to them go stale
+  const createFeed = async () => {
+    if (feedUrls && !window.confirm('Calendars subscribed with your current links will stop updating. Continue?')) return;
+    try {
+      const response = await axios.post('/api/calendar/feed-token');
+      setFeedUrls(response.data.urls);
+      setFeedMessage('');
+    } catch (err: any) {
+      setFeedMessage(err.response?.data?.message || 'Failed to create calendar links');
+    }
+  };
+
+  const revokeFeed = async () => {
+    if (window.confirm('Calendars subscribed with these links will stop updating. Continue?')) {
+      try {
+        await axios.delete('/api/calendar/feed-token');
+        setFeedUrls(null);
+        setFeedMessage('');
+      } catch (err: any) {
+        setFeedMessage(err.response?.data?.message || 'Failed to revoke calendar links');
+      }
+    }
+  };
+
+  const copyFeedUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setFeedMessage('Link copied to clipboard');
+    } catch (err) {
+      setFeedMessage('Copy the link from the field above');
+    }
+  };
+
+  const formatRange = (item: { startDate: string; endDate: string }) =>
+    `${new Date(item.startDate).toLocaleDateString()} – ${new Date(item.endDate).toLocaleDateString()}`;
+
   const onSubmit = async (data: ProfileForm) => {
     setLoading(true);
     setError('');
@@ -229,6 +395,185 @@ const Profile: React.FC = () => {
           </Box>
         </Box>
       </Paper>
+
+      <Paper sx={{ p: 4, mt: 4 }}>
+        <Typography variant="h5" gutterBottom>
+          Calendar Subscription
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Subscribe to your approved leave, or your department's, from Google Calendar, Outlook or Apple Calendar.
+          Anyone with a link can read its calendar, so keep it private.
+        </Typography>
+
+        {feedMessage && (
+          <Alert severity="info" sx={{ mb: 2 }} onClose={() => setFeedMessage('')}>
+            {feedMessage}
+          </Alert>
+        )}
+
+        {feedUrls && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mb: 2 }}>
+            {[
+              { label: 'My leave', url: feedUrls.personal },
+              { label: `${user.department.name} leave`, url: feedUrls.department },
+            ].map((feed) => (
+              <Box key={feed.label} display="flex" gap={1} alignItems="center">
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={feed.label}
+                  value={feed.url}
+                  InputProps={{ readOnly: true }}
+                />
+                <Button size="small" onClick={() => copyFeedUrl(feed.url)}>
+                  Copy
+                </Button>
+                <Button size="small" href={feed.url.replace(/^https?:/, 'webcal:')}>
+                  Subscribe
+                </Button>
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        <Box display="flex" gap={1}>
+          <Button variant="outlined" onClick={createFeed}>
+            {feedUrls ? 'Regenerate Links' : 'Create Calendar Links'}
+          </Button>
+          {feedUrls && (
+            <Button color="error" onClick={revokeFeed}>
+              Revoke Links
+            </Button>
+          )}
+        </Box>
+      </Paper>
+
+      {canDelegate && (
+        <Paper sx={{ p: 4, mt: 4 }}>
+          <Typography variant="h5" gutterBottom>
+            Approval Delegation
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            While you are away, your delegate sees and decides the approvals waiting on you.
+          </Typography>
+
+          {suggestions.map((suggestion) => (
+            <Alert
+              key={suggestion._id}
+              severity="info"
+              sx={{ mb: 2 }}
+              action={
+                <Button color="inherit" size="small" onClick={() => applySuggestion(suggestion)}>
+                  Nominate
+                </Button>
+              }
+            >
+              Your {suggestion.leaveType} leave ({formatRange(suggestion)}) is approved. Nominate a delegate to cover your approvals.
+            </Alert>
+          ))}
+
+          {delegationError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {delegationError}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+            <Box sx={{ flex: '1 1 200px' }}>
+              <FormControl fullWidth>
+                <InputLabel>Delegate</InputLabel>
+                <Select
+                  value={delegationForm.delegate}
+                  onChange={(e) => setDelegationForm({ ...delegationForm, delegate: e.target.value })}
+                  label="Delegate"
+                >
+                  {candidates.map((candidate) => (
+                    <MenuItem key={candidate._id} value={candidate._id}>
+                      {candidate.name} ({candidate.role})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+            <LocalizationProvider dateAdapter={AdapterDayjs}>
+              <Box sx={{ flex: '1 1 160px' }}>
+                <DatePicker
+                  label="From"
+                  value={delegationForm.startDate}
+                  minDate={dayjs()}
+                  onChange={(value) => setDelegationForm({ ...delegationForm, startDate: value })}
+                  slotProps={{ textField: { fullWidth: true } }}
+                />
+              </Box>
+              <Box sx={{ flex: '1 1 160px' }}>
+                <DatePicker
+                  label="To"
+                  value={delegationForm.endDate}
+                  minDate={delegationForm.startDate || dayjs()}
+                  onChange={(value) => setDelegationForm({ ...delegationForm, endDate: value })}
+                  slotProps={{ textField: { fullWidth: true } }}
+                />
+              </Box>
+            </LocalizationProvider>
+            <Box sx={{ flex: '1 1 200px' }}>
+              <TextField
+                fullWidth
+                label="Reason"
+                value={delegationForm.reason}
+                onChange={(e) => setDelegationForm({ ...delegationForm, reason: e.target.value })}
+              />
+            </Box>
+            <Box sx={{ flex: '0 0 auto', display: 'flex', alignItems: 'center' }}>
+              <Button
+                variant="contained"
+                onClick={submitDelegation}
+                disabled={!delegationForm.delegate || !delegationForm.startDate || !delegationForm.endDate}
+              >
+                Delegate
+              </Button>
+            </Box>
+          </Box>
+
+          <Typography variant="subtitle1" gutterBottom>
+            My Delegates
+          </Typography>
+          {delegations.given.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              You have no current or upcoming delegations.
+            </Typography>
+          ) : (
+            delegations.given.map((delegation) => (
+              <Box key={delegation._id} display="flex" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+                <Typography variant="body2">
+                  {delegation.delegate?.name} • {formatRange(delegation)}
+                  {delegation.reason ? ` • ${delegation.reason}` : ''}
+                </Typography>
+                <Button size="small" color="error" onClick={() => revokeDelegation(delegation._id)}>
+                  Revoke
+                </Button>
+              </Box>
+            ))
+          )}
+
+          <Divider sx={{ my: 2 }} />
+
+          <Typography variant="subtitle1" gutterBottom>
+            Delegated To Me
+          </Typography>
+          {delegations.received.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Nobody has delegated their approvals to you.
+            </Typography>
+          ) : (
+            delegations.received.map((delegation) => (
+              <Typography key={delegation._id} variant="body2" sx={{ mb: 1 }}>
+                {delegation.delegator?.name} • {formatRange(delegation)}
+                {delegation.reason ? ` • ${delegation.reason}` : ''}
+              </Typography>
+            ))
+          )}
+        </Paper>
+      )}
     </Container>
   );
 };
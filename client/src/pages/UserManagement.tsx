@@ -24,8 +24,10 @@ import {
   CircularProgress,
   Alert,
   IconButton,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
-import { Add, Edit, Delete } from '@mui/icons-material';
+import { Add, Edit, Delete, UploadFile } from '@mui/icons-material';
 import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -45,6 +47,7 @@ interface User {
   };
   position?: string;
   phone?: string;
+  joiningDate?: string;
   isActive: boolean;
 }
 
@@ -53,6 +56,24 @@ interface Department {
   name: string;
 }
 
+interface ImportResult {
+  message: string;
+  dryRun: boolean;
+  valid: boolean;
+  imported: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  invalid: number;
+  rows: {
+    row: number;
+    employeeId: string;
+    name?: string;
+    action: 'create' | 'update';
+    errors: string[];
+  }[];
+}
+
 const UserManagement: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
@@ -69,7 +90,14 @@ const UserManagement: React.FC = () => {
     manager: '',
     position: '',
     phone: '',
+    joiningDate: '',
   });
+  const [importDialog, setImportDialog] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [sendWelcome, setSendWelcome] = useState(true);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState('');
   const { user: currentUser } = useAuth();
 
   useEffect(() => {
@@ -105,6 +133,7 @@ const UserManagement: React.FC = () => {
       manager: '',
       position: '',
       phone: '',
+      joiningDate: '',
     });
     setUserDialog(true);
   };
@@ -120,6 +149,7 @@ const UserManagement: React.FC = () => {
       manager: user.manager?._id || '',
       position: user.position || '',
       phone: user.phone || '',
+      joiningDate: user.joiningDate ? user.joiningDate.slice(0, 10) : '',
     });
     setUserDialog(true);
   };
@@ -139,6 +169,38 @@ const UserManagement: React.FC = () => {
     }
   };
 
+  const openImport = () => {
+    setImportFile(null);
+    setImportResult(null);
+    setImportError('');
+    setImportDialog(true);
+  };
+
+  // The file is always checked first (dry run); importing sends it again for real
+  const submitImport = async (dryRun: boolean) => {
+    if (!importFile) return;
+    setImporting(true);
+    setImportError('');
+
+    try {
+      const data = new FormData();
+      data.append('file', importFile);
+      data.append('dryRun', String(dryRun));
+      data.append('sendWelcome', String(sendWelcome));
+      const response = await axios.post('/api/users/import', data);
+      setImportResult(response.data);
+      if (response.data.imported) fetchData();
+    } catch (error: any) {
+      if (error.response?.data?.rows) {
+        setImportResult(error.response.data);
+      } else {
+        setImportError(error.response?.data?.message || 'Failed to import users');
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleDeleteUser = async (userId: string) => {
     if (window.confirm('Are you sure you want to deactivate this user?')) {
       try {
@@ -175,13 +237,24 @@ const UserManagement: React.FC = () => {
           <Typography variant="h4">
             User Management
           </Typography>
-          <Button
-            variant="contained"
-            startIcon={<Add />}
-            onClick={handleAddUser}
-          >
-            Add User
-          </Button>
+          <Box display="flex" gap={1}>
+            {currentUser?.role === 'admin' && (
+              <Button
+                variant="outlined"
+                startIcon={<UploadFile />}
+                onClick={openImport}
+              >
+                Import CSV
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={handleAddUser}
+            >
+              Add User
+            </Button>
+          </Box>
         </Box>
 
         {users.length === 0 ? (
@@ -262,6 +335,108 @@ const UserManagement: React.FC = () => {
           </TableContainer>
         )}
 
+        {/* Import Dialog */}
+        <Dialog open={importDialog} onClose={() => setImportDialog(false)} maxWidth="md" fullWidth>
+          <DialogTitle>Import Users</DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Columns: Employee ID, Name, Email, Password, Department, Role, Manager, Phone, Position,
+              Joining Date. Existing users are matched by Employee ID and only the filled-in cells are
+              changed; passwords are only used for new users. Departments are matched by name and
+              managers by Employee ID or email.
+            </Typography>
+
+            <Box display="flex" alignItems="center" gap={2} mb={2}>
+              <Button variant="outlined" component="label">
+                Choose File
+                <input
+                  type="file"
+                  hidden
+                  accept=".csv,text/csv"
+                  onChange={(e) => {
+                    setImportFile(e.target.files?.[0] || null);
+                    setImportResult(null);
+                    e.target.value = '';
+                  }}
+                />
+              </Button>
+              <Typography variant="body2">
+                {importFile ? importFile.name : 'No file chosen'}
+              </Typography>
+            </Box>
+
+            <FormControlLabel
+              control={<Checkbox checked={sendWelcome} onChange={(e) => setSendWelcome(e.target.checked)} />}
+              label="Send a welcome email to new users"
+            />
+
+            {importError && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {importError}
+              </Alert>
+            )}
+
+            {importResult && (
+              <>
+                <Alert severity={importResult.valid ? 'success' : 'error'} sx={{ mt: 2, mb: 2 }}>
+                  {importResult.message}
+                  {!importResult.imported &&
+                    ` (${importResult.created} to create, ${importResult.updated} to update, ${importResult.invalid} with errors)`}
+                </Alert>
+                <TableContainer sx={{ maxHeight: 360 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Row</TableCell>
+                        <TableCell>Employee ID</TableCell>
+                        <TableCell>Name</TableCell>
+                        <TableCell>Action</TableCell>
+                        <TableCell>Errors</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {importResult.rows.map((row) => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell>{row.employeeId}</TableCell>
+                          <TableCell>{row.name}</TableCell>
+                          <TableCell>{row.action}</TableCell>
+                          <TableCell>
+                            {row.errors.length === 0 ? (
+                              <Chip label="OK" color="success" size="small" />
+                            ) : (
+                              row.errors.map((message) => (
+                                <Typography key={message} variant="caption" color="error" display="block">
+                                  {message}
+                                </Typography>
+                              ))
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setImportDialog(false)}>
+              {importResult?.imported ? 'Close' : 'Cancel'}
+            </Button>
+            <Button onClick={() => submitImport(true)} disabled={!importFile || importing}>
+              Check File
+            </Button>
+            <Button
+              variant="contained"
+              onClick={() => submitImport(false)}
+              disabled={!importFile || importing || !importResult?.valid || importResult.imported}
+            >
+              {importing ? <CircularProgress size={24} /> : 'Import'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {/* User Dialog */}
         <Dialog open={userDialog} onClose={() => setUserDialog(false)} maxWidth="md" fullWidth>
           <DialogTitle>
@@ -366,6 +541,18 @@ const UserManagement: React.FC = () => {
                   />
                 </Box>
               </Box>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                <Box sx={{ flex: '1 1 300px', minWidth: '300px' }}>
+                  <TextField
+                    fullWidth
+                    label="Joining Date"
+                    type="date"
+                    InputLabelProps={{ shrink: true }}
+                    value={formData.joiningDate}
+                    onChange={(e) => setFormData({ ...formData, joiningDate: e.target.value })}
+                  />
+                </Box>
+              </Box>
             </Box>
           </DialogContent>
           <DialogActions>
@@ -0,0 +1,17 @@
+export interface LeaveDuration {
+  totalDays: number;
+  durationType?: string;
+  halfDayPeriod?: string;
+  hours?: number;
+}
+
+// Half-day and hourly requests show which part of the day they cover
+export const formatDuration = (leave: LeaveDuration) => {
+  if (leave.durationType === 'half_day') {
+    return `${leave.totalDays} (${leave.halfDayPeriod === 'second_half' ? 'second' : 'first'} half)`;
+  }
+  if (leave.durationType === 'hourly') {
+    return `${leave.totalDays} (${leave.hours}h)`;
+  }
+  return `${leave.totalDays}`;
+};
@@ -0,0 +1,87 @@
+const multer = require('multer');
+const { httpError } = require('../utils/httpError');
+
+// Limits for files attached to leave requests, e.g. medical certificates
+const ATTACHMENT_MAX_MB = Number(process.env.ATTACHMENT_MAX_MB) || 5;
+const MAX_ATTACHMENTS = 5;
+const ATTACHMENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+];
+
+// Files are held in memory until the request is accepted, then written to storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: ATTACHMENT_MAX_MB * 1024 * 1024,
+    files: MAX_ATTACHMENTS
+  },
+  fileFilter: (req, file, cb) => {
+    if (ATTACHMENT_TYPES.includes(file.mimetype)) return cb(null, true);
+
+    cb(httpError(400, 'Attachments must be PDF, JPEG, PNG or Word documents'));
+  }
+});
+
+// Accept files in the `attachments` field; files breaking the limits are answered with a 400
+const uploadAttachments = (req, res, next) => {
+  upload.array('attachments', MAX_ATTACHMENTS)(req, res, (error) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Attachments must be ${ATTACHMENT_MAX_MB} MB or smaller`
+        : `At most ${MAX_ATTACHMENTS} attachments can be uploaded`;
+      return res.status(400).json({ message });
+    }
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+// Spreadsheet uploads for bulk imports; browsers label CSV files inconsistently, so go by
+// the extension
+const IMPORT_MAX_MB = 2;
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: IMPORT_MAX_MB * 1024 * 1024,
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.csv$/i.test(file.originalname)) return cb(null, true);
+
+    cb(httpError(400, 'Upload a CSV file'));
+  }
+});
+
+// Accept one CSV file in the `file` field
+const uploadImportFile = (req, res, next) => {
+  importUpload.single('file')(req, res, (error) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Import files must be ${IMPORT_MAX_MB} MB or smaller`
+        : 'Upload a single CSV file in the "file" field';
+      return res.status(400).json({ message });
+    }
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+module.exports = {
+  ATTACHMENT_MAX_MB,
+  MAX_ATTACHMENTS,
+  uploadAttachments,
+  uploadImportFile
+};
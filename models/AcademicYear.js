@@ -0,0 +1,30 @@
+const mongoose = require('mongoose');
+
+const academicYearSchema = new mongoose.Schema({
+  // Used as the academicYear key on balances, ledger entries and requests, e.g. "2025-26"
+  label: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  // First and last calendar day of the year, stored as midnight UTC
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date,
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+academicYearSchema.index({ startDate: 1, endDate: 1 });
+
+module.exports = mongoose.model('AcademicYear', academicYearSchema);
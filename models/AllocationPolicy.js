@@ -0,0 +1,60 @@
+const mongoose = require('mongoose');
+
+const allocationPolicySchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  leaveType: {
+    type: String,
+    enum: ['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other'],
+    required: true
+  },
+  days: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // 'annual' allocates all days up front; the others accrue `days` evenly over the year
+  accrualFrequency: {
+    type: String,
+    enum: ['annual', 'monthly', 'quarterly'],
+    default: 'annual'
+  },
+  // Days an employee may book beyond what has accrued so far
+  maxBorrowDays: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Most unused days that may be carried into the next academic year; 0 resets the balance
+  carryForwardCap: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Optional filters; a policy with none of them applies to everyone
+  role: {
+    type: String,
+    enum: ['employee', 'manager', 'coordinator', 'admin']
+  },
+  department: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Department'
+  },
+  position: {
+    type: String,
+    trim: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+allocationPolicySchema.index({ leaveType: 1, isActive: 1 });
+
+module.exports = mongoose.model('AllocationPolicy', allocationPolicySchema);
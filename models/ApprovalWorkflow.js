@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+
+const approvalWorkflowSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Optional filters; a workflow with none of them applies to every request
+  leaveType: {
+    type: String,
+    enum: ['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other']
+  },
+  department: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Department'
+  },
+  // Only applies to requests of at most this many days
+  maxDays: {
+    type: Number,
+    min: 0
+  },
+  // Approval steps in the order they are applied
+  steps: [{
+    role: {
+      type: String,
+      enum: ['manager', 'coordinator', 'admin'],
+      required: true
+    }
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+approvalWorkflowSchema.index({ leaveType: 1, isActive: 1 });
+
+module.exports = mongoose.model('ApprovalWorkflow', approvalWorkflowSchema);
@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+// Log of an opening balance import; the ledger entries it posted point back here so the
+// whole import can be rolled back
+const balanceImportSchema = new mongoose.Schema({
+  filename: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['committed', 'rolling_back', 'rolled_back'],
+    default: 'committed'
+  },
+  // Ledger entries a rollback has already undone, so one that stopped part way can be retried
+  reversedEntries: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LeaveLedgerEntry'
+  }],
+  // One per balance the file set, with the figures before and after
+  items: [{
+    employee: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    academicYear: String,
+    leaveType: String,
+    previousAllocated: Number,
+    previousUsed: Number,
+    allocated: Number,
+    used: Number
+  }],
+  importedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  rolledBackBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  rolledBackAt: Date
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('BalanceImport', balanceImportSchema);
@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+const delegationSchema = new mongoose.Schema({
+  // The approver who is away
+  delegator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Decides the delegator's approvals while the delegation is in effect
+  delegate: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // First and last day covered, stored as midnight UTC
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date,
+    required: true
+  },
+  // The delegator's own leave this delegation covers, if any
+  leaveRequest: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LeaveRequest'
+  },
+  reason: {
+    type: String,
+    trim: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+delegationSchema.index({ delegator: 1, startDate: 1, endDate: 1 });
+delegationSchema.index({ delegate: 1, startDate: 1, endDate: 1 });
+
+module.exports = mongoose.model('Delegation', delegationSchema);
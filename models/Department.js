@@ -15,6 +15,34 @@ const departmentSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   },
+  // Days of the week (0 = Sunday) not worked; empty uses the organisation default
+  weekendDays: {
+    type: [Number],
+    default: undefined
+  },
+  // Most people who may be on approved leave on the same working day; empty for no limit
+  maxConcurrentAbsences: {
+    type: Number,
+    min: 1
+  },
+  // Windows (midnight UTC, inclusive) in which the listed leave types can't be taken;
+  // no leave types blocks every type
+  blackoutPeriods: [{
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    startDate: {
+      type: Date,
+      required: true
+    },
+    endDate: {
+      type: Date,
+      required: true
+    },
+    leaveTypes: [String]
+  }],
   isActive: {
     type: Boolean,
     default: true
@@ -0,0 +1,29 @@
+const mongoose = require('mongoose');
+
+const holidaySchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Stored as midnight UTC of the holiday's calendar date
+  date: {
+    type: Date,
+    required: true
+  },
+  // Empty for organisation-wide holidays
+  department: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Department'
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+holidaySchema.index({ date: 1, department: 1 });
+
+module.exports = mongoose.model('Holiday', holidaySchema);
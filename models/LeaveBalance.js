@@ -26,6 +26,27 @@ const leaveBalanceSchema = new mongoose.Schema({
   remaining: {
     type: Number,
     default: 0
+  },
+  // Part of totalAllocated brought over from the previous academic year
+  carriedForward: {
+    type: Number,
+    default: 0
+  },
+  carryForwardExpiresAt: {
+    type: Date
+  },
+  accrualFrequency: {
+    type: String,
+    enum: ['annual', 'monthly', 'quarterly'],
+    default: 'annual'
+  },
+  // Days that may be booked beyond `remaining` against future accrual
+  borrowLimit: {
+    type: Number,
+    default: 0
+  },
+  accruedThrough: {
+    type: Date
   }
 }, {
   timestamps: true
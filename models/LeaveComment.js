@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+
+// A message in the discussion between the employee and approvers on a leave request
+const leaveCommentSchema = new mongoose.Schema({
+  leaveRequest: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LeaveRequest',
+    required: true
+  },
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  body: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Set when an approver asked the employee for more information with this comment
+  requestsInformation: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+leaveCommentSchema.index({ leaveRequest: 1, createdAt: 1 });
+
+module.exports = mongoose.model('LeaveComment', leaveCommentSchema);
@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+
+// One entry in a leave request's history. Events are only ever appended: they record who
+// did what to the request and the values it changed.
+const leaveEventSchema = new mongoose.Schema({
+  leaveRequest: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LeaveRequest',
+    required: true
+  },
+  eventType: {
+    type: String,
+    enum: [
+      'submitted',
+      'stage_approved',
+      'stage_rejected',
+      'escalated',
+      'amendment_requested',
+      'superseded',
+      'cancelled',
+      'cancellation_requested',
+      'cancellation_approved',
+      'cancellation_rejected',
+      'attachment_added',
+      'information_requested',
+      'information_provided'
+    ],
+    required: true
+  },
+  // Empty for changes made by the system, e.g. escalations
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Set when a delegate acted for the approver
+  onBehalfOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Approval stage the event concerns
+  step: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  changes: [{
+    _id: false,
+    field: String,
+    before: mongoose.Schema.Types.Mixed,
+    after: mongoose.Schema.Types.Mixed
+  }],
+  description: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+leaveEventSchema.index({ leaveRequest: 1, createdAt: 1 });
+
+// History is append-only
+leaveEventSchema.pre('save', function(next) {
+  if (!this.isNew) return next(new Error('Leave events cannot be changed'));
+  next();
+});
+
+leaveEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function(next) {
+    next(new Error('Leave events cannot be changed'));
+  }
+);
+
+module.exports = mongoose.model('LeaveEvent', leaveEventSchema);
@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+
+const leaveLedgerEntrySchema = new mongoose.Schema({
+  employee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  academicYear: {
+    type: String,
+    required: true
+  },
+  leaveType: {
+    type: String,
+    enum: ['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other'],
+    required: true
+  },
+  // allocation/adjustment/carry_forward/expiry change totalAllocated, debit/reversal change used
+  entryType: {
+    type: String,
+    enum: ['allocation', 'debit', 'reversal', 'adjustment', 'carry_forward', 'expiry'],
+    required: true
+  },
+  // Always positive except for adjustments, which may be negative
+  days: {
+    type: Number,
+    required: true
+  },
+  leaveRequest: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LeaveRequest'
+  },
+  allocationPolicy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'AllocationPolicy'
+  },
+  yearEndClosing: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'YearEndClosing'
+  },
+  balanceImport: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BalanceImport'
+  },
+  // Per-request counter so two concurrent syncs of the same request cannot both post
+  sequence: {
+    type: Number
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Index for balance statements and rebuilds
+leaveLedgerEntrySchema.index({ employee: 1, academicYear: 1, leaveType: 1, createdAt: 1 });
+leaveLedgerEntrySchema.index(
+  { leaveRequest: 1, sequence: 1 },
+  { unique: true, partialFilterExpression: { leaveRequest: { $exists: true } } }
+);
+leaveLedgerEntrySchema.index({ balanceImport: 1 }, { sparse: true });
+leaveLedgerEntrySchema.index(
+  { yearEndClosing: 1, employee: 1, leaveType: 1 },
+  { unique: true, partialFilterExpression: { yearEndClosing: { $exists: true } } }
+);
+
+module.exports = mongoose.model('LeaveLedgerEntry', leaveLedgerEntrySchema);
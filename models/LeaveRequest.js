@@ -19,6 +19,20 @@ const leaveRequestSchema = new mongoose.Schema({
     type: Date,
     required: true
   },
+  durationType: {
+    type: String,
+    enum: ['full_day', 'half_day', 'hourly'],
+    default: 'full_day'
+  },
+  halfDayPeriod: {
+    type: String,
+    enum: ['first_half', 'second_half']
+  },
+  hours: {
+    type: Number,
+    min: 0
+  },
+  // Working days charged; fractional for half-day and hourly leave
   totalDays: {
     type: Number,
     required: true
@@ -30,43 +44,144 @@ const leaveRequestSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'approved', 'rejected', 'cancelled'],
+    enum: ['pending', 'approved', 'rejected', 'cancelled', 'superseded'],
     default: 'pending'
   },
+  // An amendment proposes new dates or type for an approved request; once it is approved the
+  // original is superseded and points at its replacement
+  amendmentOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LeaveRequest'
+  },
+  supersededBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LeaveRequest'
+  },
+  // Year of the first day charged; see yearAllocations for requests crossing a year boundary
   academicYear: {
     type: String,
     required: true
   },
-  managerApproval: {
+  yearAllocations: [{
+    academicYear: String,
+    days: Number
+  }],
+  workflow: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ApprovalWorkflow'
+  },
+  // Approval chain copied from the workflow when the request is made
+  approvalSteps: [{
+    role: {
+      type: String,
+      enum: ['manager', 'coordinator', 'admin'],
+      required: true
+    },
+    // The requester's manager or department coordinator; empty means any admin
+    assignedTo: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
     status: {
       type: String,
       enum: ['pending', 'approved', 'rejected'],
       default: 'pending'
     },
+    // When the stage became the one awaiting a decision
+    openedAt: Date,
+    // Set by the escalation job; escalatedAt restarts the idle clock for the new approver
+    remindedAt: Date,
+    escalatedAt: Date,
+    // Time spent waiting on the employee for information, which doesn't count towards the SLA
+    pausedHours: {
+      type: Number,
+      default: 0
+    },
     approvedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
     },
     approvedAt: Date,
-    comments: String
+    // Set when a delegate decided the step for the assigned approver
+    onBehalfOf: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    comments: String,
+    // Department rules the approver knowingly approved past
+    ruleWarnings: [String],
+    // Decided by an admin in place of the assigned approver
+    override: {
+      type: Boolean,
+      default: false
+    }
+  }],
+  // Stages handed to a higher approver after sitting idle past the SLA
+  escalations: [{
+    step: mongoose.Schema.Types.ObjectId,
+    role: String,
+    from: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    to: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    escalatedAt: Date
+  }],
+  // Open while an approver waits on the employee for more information; the stage's SLA
+  // clock is paused until the employee replies
+  informationRequest: {
+    step: mongoose.Schema.Types.ObjectId,
+    requestedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    requestedAt: Date
   },
-  coordinatorApproval: {
+  // Employee's request to cancel approved leave, or cut leave in progress short, which their
+  // manager (any admin if they have none) has to approve
+  cancellationRequest: {
     status: {
       type: String,
-      enum: ['pending', 'approved', 'rejected'],
-      default: 'pending'
+      enum: ['pending', 'approved', 'rejected']
     },
-    approvedBy: {
+    // First day back for an early return; leave from this day on is cancelled
+    returnDate: Date,
+    reason: String,
+    assignedTo: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
     },
-    approvedAt: Date,
-    comments: String
+    requestedAt: Date,
+    decidedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    decidedAt: Date,
+    onBehalfOf: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    comments: String,
+    // Working days credited back once approved
+    cancelledDays: Number
   },
+  // Supporting documents; filename is the storage key
   attachments: [{
     filename: String,
     originalName: String,
-    path: String
+    mimeType: String,
+    size: Number,
+    uploadedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    uploadedAt: {
+      type: Date,
+      default: Date.now
+    }
   }],
   isActive: {
     type: Boolean,
@@ -79,6 +194,8 @@ const leaveRequestSchema = new mongoose.Schema({
 // Index for better query performance
 leaveRequestSchema.index({ employee: 1, academicYear: 1 });
 leaveRequestSchema.index({ status: 1 });
+leaveRequestSchema.index({ amendmentOf: 1 });
+leaveRequestSchema.index({ 'cancellationRequest.status': 1 });
 leaveRequestSchema.index({ startDate: 1, endDate: 1 });
 
 module.exports = mongoose.model('LeaveRequest', leaveRequestSchema);
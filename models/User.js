@@ -49,6 +49,17 @@ const userSchema = new mongoose.Schema({
   position: {
     type: String,
     trim: true
+  },
+  // Used to pro-rate accrued leave; falls back to createdAt
+  joiningDate: {
+    type: Date
+  },
+  // Secret in the user's calendar feed URLs; calendar apps can't send the session cookie
+  calendarToken: {
+    type: String,
+    unique: true,
+    sparse: true,
+    select: false
   }
 }, {
   timestamps: true
@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+const yearEndClosingSchema = new mongoose.Schema({
+  fromYear: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  toYear: {
+    type: String,
+    required: true
+  },
+  // Carried days still unused on this date are removed from the new year's balance
+  carryForwardExpiresAt: {
+    type: Date
+  },
+  status: {
+    type: String,
+    enum: ['in_progress', 'committed'],
+    default: 'in_progress'
+  },
+  items: [{
+    employee: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    leaveType: String,
+    unused: Number,
+    cap: Number,
+    carried: Number
+  }],
+  totalCarried: {
+    type: Number,
+    default: 0
+  },
+  committedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  committedAt: Date
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('YearEndClosing', yearEndClosingSchema);
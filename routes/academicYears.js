@@ -0,0 +1,163 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const AcademicYear = require('../models/AcademicYear');
+const { auth, authorize } = require('../middleware/auth');
+const { startOfDay } = require('../utils/workingDays');
+const { getCurrentAcademicYear } = require('../utils/academicYear');
+
+const router = express.Router();
+
+const academicYearValidation = [
+  body('label').notEmpty().withMessage('Label is required'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('endDate').isISO8601().withMessage('Valid end date is required')
+];
+
+// Academic years must not overlap, otherwise a leave date would belong to two years
+const findOverlappingYear = (startDate, endDate, excludeId) => {
+  const query = {
+    isActive: true,
+    startDate: { $lte: endDate },
+    endDate: { $gte: startDate }
+  };
+  if (excludeId) query._id = { $ne: excludeId };
+  return AcademicYear.findOne(query);
+};
+
+// @route   GET /api/academic-years
+// @desc    Get defined academic years, newest first
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const academicYears = await AcademicYear.find({ isActive: true })
+      .sort({ startDate: -1 });
+
+    res.json(academicYears);
+  } catch (error) {
+    console.error('Get academic years error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/academic-years/current
+// @desc    Get the academic year today falls in
+// @access  Private
+router.get('/current', auth, async (req, res) => {
+  try {
+    const academicYear = await getCurrentAcademicYear();
+    res.json(academicYear);
+  } catch (error) {
+    console.error('Get current academic year error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/academic-years
+// @desc    Create academic year
+// @access  Private (Admin)
+router.post('/', auth, authorize('admin'), academicYearValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { label } = req.body;
+    const startDate = startOfDay(req.body.startDate);
+    const endDate = startOfDay(req.body.endDate);
+
+    if (startDate >= endDate) {
+      return res.status(400).json({ message: 'End date must be after start date' });
+    }
+
+    const existingYear = await AcademicYear.findOne({ label });
+    if (existingYear) {
+      return res.status(400).json({ message: 'Academic year with this label already exists' });
+    }
+
+    const overlapping = await findOverlappingYear(startDate, endDate);
+    if (overlapping) {
+      return res.status(400).json({ message: `Dates overlap academic year ${overlapping.label}` });
+    }
+
+    const academicYear = new AcademicYear({ label, startDate, endDate });
+    await academicYear.save();
+
+    res.status(201).json({
+      message: 'Academic year created successfully',
+      academicYear
+    });
+  } catch (error) {
+    console.error('Create academic year error:', error);
+    res.status(500).json({ message: 'Server error during academic year creation' });
+  }
+});
+
+// @route   PUT /api/academic-years/:id
+// @desc    Update academic year dates
+// @access  Private (Admin)
+router.put('/:id', auth, authorize('admin'), academicYearValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const academicYear = await AcademicYear.findById(req.params.id);
+    if (!academicYear) {
+      return res.status(404).json({ message: 'Academic year not found' });
+    }
+
+    const { label } = req.body;
+    const startDate = startOfDay(req.body.startDate);
+    const endDate = startOfDay(req.body.endDate);
+
+    if (startDate >= endDate) {
+      return res.status(400).json({ message: 'End date must be after start date' });
+    }
+
+    // The label keys balances and ledger entries, so it cannot be renamed
+    if (label !== academicYear.label) {
+      return res.status(400).json({ message: 'Academic year label cannot be changed' });
+    }
+
+    const overlapping = await findOverlappingYear(startDate, endDate, academicYear._id);
+    if (overlapping) {
+      return res.status(400).json({ message: `Dates overlap academic year ${overlapping.label}` });
+    }
+
+    academicYear.startDate = startDate;
+    academicYear.endDate = endDate;
+    await academicYear.save();
+
+    res.json({
+      message: 'Academic year updated successfully',
+      academicYear
+    });
+  } catch (error) {
+    console.error('Update academic year error:', error);
+    res.status(500).json({ message: 'Server error during academic year update' });
+  }
+});
+
+// @route   DELETE /api/academic-years/:id
+// @desc    Deactivate academic year
+// @access  Private (Admin)
+router.delete('/:id', auth, authorize('admin'), async (req, res) => {
+  try {
+    const academicYear = await AcademicYear.findById(req.params.id);
+    if (!academicYear) {
+      return res.status(404).json({ message: 'Academic year not found' });
+    }
+
+    academicYear.isActive = false;
+    await academicYear.save();
+
+    res.json({ message: 'Academic year deactivated successfully' });
+  } catch (error) {
+    console.error('Deactivate academic year error:', error);
+    res.status(500).json({ message: 'Server error during academic year deactivation' });
+  }
+});
+
+module.exports = router;
@@ -2,6 +2,8 @@ const express = require('express');
 const User = require('../models/User');
 const Department = require('../models/Department');
 const { auth } = require('../middleware/auth');
+const { allocateForUser } = require('../utils/allocationService');
+const { getCurrentAcademicYear } = require('../utils/academicYear');
 
 const router = express.Router();
 
@@ -22,7 +24,7 @@ router.post('/register', /* [
       return res.status(400).json({ errors: errors.array() });
     } */
 
-    const { name, email, password, employeeId, department, role, manager, phone, position } = req.body;
+    const { name, email, password, employeeId, department, role, manager, phone, position, joiningDate } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ 
@@ -51,11 +53,21 @@ router.post('/register', /* [
       role,
       manager,
       phone,
-      position
+      position,
+      joiningDate: joiningDate || undefined
     });
 
     await user.save();
 
+    // Allocate this year's leave balances from the active policies
+    try {
+      const { label } = await getCurrentAcademicYear();
+      await allocateForUser(user, label);
+    } catch (error) {
+      // Don't block registration; balances can be generated again later
+      console.error('Leave allocation error:', error);
+    }
+
     // Populate department and manager details
     await user.populate('department', 'name');
     if (manager) {
@@ -0,0 +1,265 @@
+const express = require('express');
+const crypto = require('crypto');
+const { query, validationResult } = require('express-validator');
+const LeaveRequest = require('../models/LeaveRequest');
+const LeaveEvent = require('../models/LeaveEvent');
+const Department = require('../models/Department');
+const User = require('../models/User');
+const { auth } = require('../middleware/auth');
+const { startOfDay, toDateKey, getWeekendDays, getHolidays, describeDuration } = require('../utils/workingDays');
+const { buildCalendar } = require('../utils/icalendar');
+
+const router = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Long enough for a month view padded out to whole weeks
+const MAX_RANGE_DAYS = 93;
+
+// The people on someone's team: their manager, everyone else reporting to that manager and
+// their own direct reports
+const getTeamMembers = async (user) => {
+  const ids = [user._id];
+  if (user.manager) {
+    ids.push(user.manager, ...await User.find({ manager: user.manager }).distinct('_id'));
+  }
+  ids.push(...await User.find({ manager: user._id }).distinct('_id'));
+  return [...new Set(ids.map(String))];
+};
+
+// @route   GET /api/calendar
+// @desc    Approved and pending absences for a date range, for my team, my department or
+//          (admins) the whole organisation, with holidays and weekends
+// @access  Private
+router.get('/', auth, [
+  query('startDate').isISO8601().withMessage('Valid start date is required'),
+  query('endDate').isISO8601().withMessage('Valid end date is required'),
+  query('scope').optional().isIn(['team', 'department', 'organisation']).withMessage('Invalid scope'),
+  query('department').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid department ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { scope = 'team' } = req.query;
+    const start = startOfDay(req.query.startDate);
+    const end = startOfDay(req.query.endDate);
+
+    if (start > end) {
+      return res.status(400).json({ message: 'End date must be on or after start date' });
+    }
+    if ((end - start) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+      return res.status(400).json({ message: `Calendar range cannot exceed ${MAX_RANGE_DAYS} days` });
+    }
+
+    const isAdmin = req.user.role === 'admin';
+    if (scope === 'organisation' && !isAdmin) {
+      return res.status(403).json({ message: 'Only admins can view the whole organisation' });
+    }
+
+    // Admins can look at any department; everyone else only at their own
+    let departmentId = req.query.department || undefined;
+    if (departmentId && !isAdmin && String(departmentId) !== String(req.user.department)) {
+      return res.status(403).json({ message: 'You can only view your own department' });
+    }
+    if (scope === 'department' && !departmentId) {
+      departmentId = req.user.department;
+      if (!departmentId) {
+        return res.status(400).json({ message: 'You are not assigned to a department' });
+      }
+    }
+
+    const employeeQuery = {};
+    if (scope === 'team') employeeQuery._id = { $in: await getTeamMembers(req.user) };
+    if (departmentId) employeeQuery.department = departmentId;
+    const employees = await User.find(employeeQuery).distinct('_id');
+
+    const absences = await LeaveRequest.find({
+      employee: { $in: employees },
+      status: { $in: ['approved', 'pending'] },
+      startDate: { $lte: end },
+      endDate: { $gte: start }
+    })
+      .select('employee leaveType status startDate endDate durationType halfDayPeriod hours totalDays')
+      .populate('employee', 'name employeeId department')
+      .sort({ startDate: 1 });
+
+    const department = departmentId ? await Department.findById(departmentId) : null;
+    const holidays = await getHolidays(start, end, departmentId);
+
+    res.json({
+      startDate: toDateKey(start),
+      endDate: toDateKey(end),
+      scope,
+      department: department ? { _id: department._id, name: department.name } : null,
+      weekendDays: getWeekendDays(department),
+      holidays: holidays.map((holiday) => ({
+        date: toDateKey(holiday.date),
+        name: holiday.name,
+        department: holiday.department
+      })),
+      absences
+    });
+  } catch (error) {
+    console.error('Get calendar error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// How far back feeds go; older leave has long dropped out of anyone's calendar view
+const FEED_HISTORY_DAYS = 365;
+
+const feedUrls = (req, token) => {
+  const base = `${req.protocol}://${req.get('host')}/api/calendar/feeds/${token}`;
+  return { personal: `${base}/me.ics`, department: `${base}/department.ics` };
+};
+
+// Approved leave in a feed, plus leave that was approved but has since been cancelled or
+// replaced by an amendment, so subscribed calendars drop it
+const findFeedRequests = (employeeQuery) => {
+  return LeaveRequest.find({
+    employee: employeeQuery,
+    endDate: { $gte: new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS) },
+    $or: [
+      { status: 'approved' },
+      { status: 'superseded' },
+      { status: 'cancelled', 'cancellationRequest.status': 'approved' }
+    ]
+  })
+    .populate('employee', 'name')
+    .sort({ startDate: 1 });
+};
+
+// Each recorded change bumps the event's SEQUENCE so calendar apps pick up the update
+const getRevisions = async (requests) => {
+  const counts = await LeaveEvent.aggregate([
+    { $match: { leaveRequest: { $in: requests.map((request) => request._id) } } },
+    { $group: { _id: '$leaveRequest', count: { $sum: 1 } } }
+  ]);
+  const revisions = {};
+  counts.forEach(({ _id, count }) => { revisions[String(_id)] = count; });
+  return revisions;
+};
+
+// Part-day leave is marked in the event title, e.g. "sick leave (first half day)"
+const durationSuffix = (request) => {
+  const partOfDay = request.durationType === 'half_day' || request.durationType === 'hourly';
+  return partOfDay ? ` (${describeDuration(request).toLowerCase()})` : '';
+};
+
+const sendFeed = async (res, name, requests, { summary, description }) => {
+  const revisions = await getRevisions(requests);
+  const events = requests.map((request) => ({
+    uid: `${request._id}@leave-management`,
+    startDate: request.startDate,
+    endDate: request.endDate,
+    summary: summary(request),
+    description: description ? description(request) : undefined,
+    cancelled: request.status !== 'approved',
+    sequence: revisions[String(request._id)] || 0,
+    updatedAt: request.updatedAt
+  }));
+
+  res.type('text/calendar; charset=utf-8');
+  res.set('Content-Disposition', 'inline; filename="leave.ics"');
+  res.send(buildCalendar(name, events));
+};
+
+// The user a feed token belongs to; unknown or revoked tokens get a 404
+const findFeedOwner = (token) => {
+  if (!/^[a-f0-9]{48}$/.test(token)) return null;
+  return User.findOne({ calendarToken: token, isActive: true });
+};
+
+// @route   GET /api/calendar/feed-token
+// @desc    Get my calendar feed URLs, if I have subscribed
+// @access  Private
+router.get('/feed-token', auth, async (req, res) => {
+  try {
+    const user = await User.findById(req.userId).select('+calendarToken');
+    res.json({ urls: user.calendarToken ? feedUrls(req, user.calendarToken) : null });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/calendar/feed-token
+// @desc    Create my calendar feed URLs, replacing (and so revoking) any earlier ones
+// @access  Private
+router.post('/feed-token', auth, async (req, res) => {
+  try {
+    const token = crypto.randomBytes(24).toString('hex');
+    await User.updateOne({ _id: req.userId }, { $set: { calendarToken: token } });
+
+    res.status(201).json({
+      message: 'Calendar feed created',
+      urls: feedUrls(req, token)
+    });
+  } catch (error) {
+    console.error('Create calendar feed error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/calendar/feed-token
+// @desc    Revoke my calendar feed URLs
+// @access  Private
+router.delete('/feed-token', auth, async (req, res) => {
+  try {
+    await User.updateOne({ _id: req.userId }, { $unset: { calendarToken: 1 } });
+    res.json({ message: 'Calendar feed revoked' });
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/calendar/feeds/:token/me.ics
+// @desc    iCalendar feed of my approved leave
+// @access  Public (feed token)
+router.get('/feeds/:token/me.ics', async (req, res) => {
+  try {
+    const user = await findFeedOwner(req.params.token);
+    if (!user) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const requests = await findFeedRequests(user._id);
+    await sendFeed(res, `${user.name} - Leave`, requests, {
+      summary: (request) => `${request.leaveType} leave${durationSuffix(request)}`,
+      description: (request) => request.reason
+    });
+  } catch (error) {
+    console.error('Personal calendar feed error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/calendar/feeds/:token/department.ics
+// @desc    iCalendar feed of approved leave in my department
+// @access  Public (feed token)
+router.get('/feeds/:token/department.ics', async (req, res) => {
+  try {
+    const user = await findFeedOwner(req.params.token);
+    if (!user) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const department = await Department.findById(user.department);
+    const colleagues = await User.find({ department: user.department }).distinct('_id');
+    const requests = await findFeedRequests({ $in: colleagues });
+
+    // Colleagues see who is away, not why
+    await sendFeed(res, `${department ? department.name : 'Department'} - Leave`, requests, {
+      summary: (request) => `${request.employee.name} - ${request.leaveType} leave${durationSuffix(request)}`
+    });
+  } catch (error) {
+    console.error('Department calendar feed error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
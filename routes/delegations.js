@@ -0,0 +1,179 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Delegation = require('../models/Delegation');
+const LeaveRequest = require('../models/LeaveRequest');
+const User = require('../models/User');
+const { auth, authorize } = require('../middleware/auth');
+const { startOfDay } = require('../utils/workingDays');
+const { findOverlappingDelegation } = require('../utils/delegation');
+
+const router = express.Router();
+
+// Only users who can reach the approval screens can delegate or be delegated to
+const APPROVER_ROLES = ['manager', 'coordinator', 'admin'];
+
+// @route   GET /api/delegations
+// @desc    Get current and upcoming delegations made by and to the current user
+// @access  Private (Manager/Coordinator/Admin)
+router.get('/', auth, authorize(...APPROVER_ROLES), async (req, res) => {
+  try {
+    const current = { isActive: true, endDate: { $gte: startOfDay(new Date()) } };
+
+    const [given, received] = await Promise.all([
+      Delegation.find({ ...current, delegator: req.userId })
+        .populate('delegate', 'name email')
+        .populate('leaveRequest', 'leaveType startDate endDate')
+        .sort({ startDate: 1 }),
+      Delegation.find({ ...current, delegate: req.userId })
+        .populate('delegator', 'name email')
+        .sort({ startDate: 1 })
+    ]);
+
+    res.json({ given, received });
+  } catch (error) {
+    console.error('Get delegations error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/delegations/candidates
+// @desc    Get users who can be nominated as a delegate
+// @access  Private (Manager/Coordinator/Admin)
+router.get('/candidates', auth, authorize(...APPROVER_ROLES), async (req, res) => {
+  try {
+    const candidates = await User.find({
+      _id: { $ne: req.userId },
+      role: { $in: APPROVER_ROLES },
+      isActive: true
+    })
+      .select('name email role')
+      .sort({ name: 1 });
+
+    res.json(candidates);
+  } catch (error) {
+    console.error('Get delegate candidates error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/delegations/suggestions
+// @desc    Get the current user's approved upcoming leave that no delegation covers yet
+// @access  Private (Manager/Coordinator/Admin)
+router.get('/suggestions', auth, authorize(...APPROVER_ROLES), async (req, res) => {
+  try {
+    const leaveRequests = await LeaveRequest.find({
+      employee: req.userId,
+      status: 'approved',
+      endDate: { $gte: startOfDay(new Date()) }
+    })
+      .select('leaveType startDate endDate totalDays')
+      .sort({ startDate: 1 });
+
+    const suggestions = [];
+    for (const leaveRequest of leaveRequests) {
+      const covered = await findOverlappingDelegation(req.userId, startOfDay(leaveRequest.startDate), startOfDay(leaveRequest.endDate));
+      if (!covered) suggestions.push(leaveRequest);
+    }
+
+    res.json(suggestions);
+  } catch (error) {
+    console.error('Get delegation suggestions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/delegations
+// @desc    Nominate a delegate for a date range
+// @access  Private (Manager/Coordinator/Admin)
+router.post('/', auth, authorize(...APPROVER_ROLES), [
+  body('delegate').isMongoId().withMessage('Valid delegate is required'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('endDate').isISO8601().withMessage('Valid end date is required'),
+  body('leaveRequest').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid leave request ID'),
+  body('reason').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { delegate, leaveRequest, reason } = req.body;
+    const startDate = startOfDay(req.body.startDate);
+    const endDate = startOfDay(req.body.endDate);
+
+    if (endDate < startDate) {
+      return res.status(400).json({ message: 'End date must be on or after start date' });
+    }
+    if (endDate < startOfDay(new Date())) {
+      return res.status(400).json({ message: 'Delegation must not end in the past' });
+    }
+    if (String(delegate) === String(req.userId)) {
+      return res.status(400).json({ message: 'You cannot delegate to yourself' });
+    }
+
+    const delegateUser = await User.findById(delegate);
+    if (!delegateUser || !delegateUser.isActive || !APPROVER_ROLES.includes(delegateUser.role)) {
+      return res.status(400).json({ message: 'Delegate must be an active manager, coordinator or admin' });
+    }
+
+    if (leaveRequest) {
+      const ownLeave = await LeaveRequest.findOne({ _id: leaveRequest, employee: req.userId });
+      if (!ownLeave) {
+        return res.status(400).json({ message: 'Leave request not found' });
+      }
+    }
+
+    const overlapping = await findOverlappingDelegation(req.userId, startDate, endDate);
+    if (overlapping) {
+      return res.status(400).json({ message: 'You already have a delegate for part of this period' });
+    }
+
+    const delegation = new Delegation({
+      delegator: req.userId,
+      delegate,
+      startDate,
+      endDate,
+      leaveRequest: leaveRequest || undefined,
+      reason
+    });
+
+    await delegation.save();
+    await delegation.populate('delegate', 'name email');
+    await delegation.populate('leaveRequest', 'leaveType startDate endDate');
+
+    res.status(201).json({
+      message: 'Delegation created successfully',
+      delegation
+    });
+  } catch (error) {
+    console.error('Create delegation error:', error);
+    res.status(500).json({ message: 'Server error during delegation creation' });
+  }
+});
+
+// @route   DELETE /api/delegations/:id
+// @desc    Revoke a delegation
+// @access  Private (Delegator/Admin)
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const delegation = await Delegation.findById(req.params.id);
+    if (!delegation || !delegation.isActive) {
+      return res.status(404).json({ message: 'Delegation not found' });
+    }
+
+    if (String(delegation.delegator) !== String(req.userId) && req.user.role !== 'admin') {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    delegation.isActive = false;
+    await delegation.save();
+
+    res.json({ message: 'Delegation revoked successfully' });
+  } catch (error) {
+    console.error('Revoke delegation error:', error);
+    res.status(500).json({ message: 'Server error during delegation removal' });
+  }
+});
+
+module.exports = router;
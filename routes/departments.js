@@ -3,9 +3,48 @@ const { body, validationResult } = require('express-validator');
 const Department = require('../models/Department');
 const User = require('../models/User');
 const { auth, authorize } = require('../middleware/auth');
+const { rerouteApprovals } = require('../utils/approvalWorkflow');
+const { startOfDay } = require('../utils/workingDays');
+const { LEAVE_TYPES } = require('../utils/leaveTypes');
 
 const router = express.Router();
 
+// Weekend days are day-of-week numbers, 0 (Sunday) to 6 (Saturday)
+const isValidWeekendDays = (weekendDays) => {
+  return Array.isArray(weekendDays) &&
+    weekendDays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+};
+
+// Coverage limits are a positive whole number of people; empty removes the limit
+const parseCoverageLimit = (value) => {
+  if (value === '' || value === null) return { limit: null };
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 ? { limit } : { error: 'Coverage limit must be a whole number of at least 1' };
+};
+
+// Blackout periods need a name, a date range and known leave types; dates are stored as midnight UTC
+const parseBlackoutPeriods = (periods) => {
+  if (!Array.isArray(periods)) return { error: 'Blackout periods must be a list' };
+
+  const parsed = [];
+  for (const period of periods) {
+    if (!period || !period.name || !period.startDate || !period.endDate) {
+      return { error: 'Each blackout period needs a name, start date and end date' };
+    }
+    const startDate = startOfDay(period.startDate);
+    const endDate = startOfDay(period.endDate);
+    if (isNaN(startDate) || isNaN(endDate) || endDate < startDate) {
+      return { error: `Blackout period '${period.name}' must end on or after its start date` };
+    }
+    const leaveTypes = period.leaveTypes || [];
+    if (!Array.isArray(leaveTypes) || leaveTypes.some((type) => !LEAVE_TYPES.includes(type))) {
+      return { error: `Blackout period '${period.name}' has an invalid leave type` };
+    }
+    parsed.push({ name: period.name, startDate, endDate, leaveTypes });
+  }
+  return { periods: parsed };
+};
+
 // @route   GET /api/departments
 // @desc    Get all departments
 // @access  Private
@@ -55,7 +94,17 @@ router.post('/', auth, authorize('admin'), /* [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, description, coordinator } = req.body;
+    const { name, description, coordinator, weekendDays, maxConcurrentAbsences, blackoutPeriods } = req.body;
+
+    if (weekendDays !== undefined && !isValidWeekendDays(weekendDays)) {
+      return res.status(400).json({ message: 'Weekend days must be between 0 (Sunday) and 6 (Saturday)' });
+    }
+
+    const coverage = maxConcurrentAbsences !== undefined ? parseCoverageLimit(maxConcurrentAbsences) : {};
+    const blackouts = blackoutPeriods !== undefined ? parseBlackoutPeriods(blackoutPeriods) : {};
+    if (coverage.error || blackouts.error) {
+      return res.status(400).json({ message: coverage.error || blackouts.error });
+    }
 
     // Check if department already exists
     const existingDepartment = await Department.findOne({ name });
@@ -74,7 +123,10 @@ router.post('/', auth, authorize('admin'), /* [
     const department = new Department({
       name,
       description,
-      coordinator
+      coordinator,
+      weekendDays,
+      maxConcurrentAbsences: coverage.limit || undefined,
+      blackoutPeriods: blackouts.periods
     });
 
     await department.save();
@@ -104,7 +156,17 @@ router.put('/:id', auth, authorize('admin'), /* [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, description, coordinator } = req.body;
+    const { name, description, coordinator, weekendDays, maxConcurrentAbsences, blackoutPeriods } = req.body;
+
+    if (weekendDays !== undefined && !isValidWeekendDays(weekendDays)) {
+      return res.status(400).json({ message: 'Weekend days must be between 0 (Sunday) and 6 (Saturday)' });
+    }
+
+    const coverage = maxConcurrentAbsences !== undefined ? parseCoverageLimit(maxConcurrentAbsences) : {};
+    const blackouts = blackoutPeriods !== undefined ? parseBlackoutPeriods(blackoutPeriods) : {};
+    if (coverage.error || blackouts.error) {
+      return res.status(400).json({ message: coverage.error || blackouts.error });
+    }
     
     const department = await Department.findById(req.params.id);
     if (!department) {
@@ -131,6 +193,9 @@ router.put('/:id', auth, authorize('admin'), /* [
     if (name) updateData.name = name;
     if (description !== undefined) updateData.description = description;
     if (coordinator !== undefined) updateData.coordinator = coordinator;
+    if (weekendDays !== undefined) updateData.weekendDays = weekendDays;
+    if (maxConcurrentAbsences !== undefined) updateData.maxConcurrentAbsences = coverage.limit;
+    if (blackoutPeriods !== undefined) updateData.blackoutPeriods = blackouts.periods;
 
     const updatedDepartment = await Department.findByIdAndUpdate(
       req.params.id,
@@ -138,6 +203,14 @@ router.put('/:id', auth, authorize('admin'), /* [
       { new: true, runValidators: true }
     ).populate('coordinator', 'name email');
 
+    // Pending coordinator approvals move to the new coordinator
+    if (coordinator !== undefined && String(coordinator || '') !== String(department.coordinator || '')) {
+      const employees = await User.find({ department: department._id, isActive: true });
+      for (const employee of employees) {
+        await rerouteApprovals(employee);
+      }
+    }
+
     res.json({
       message: 'Department updated successfully',
       department: updatedDepartment
@@ -0,0 +1,145 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Holiday = require('../models/Holiday');
+const Department = require('../models/Department');
+const { auth, authorize } = require('../middleware/auth');
+const { startOfDay } = require('../utils/workingDays');
+
+const router = express.Router();
+
+const holidayValidation = [
+  body('name').notEmpty().withMessage('Holiday name is required'),
+  body('date').isISO8601().withMessage('Valid date is required'),
+  body('department').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid department ID')
+];
+
+// @route   GET /api/holidays
+// @desc    Get holidays, optionally for a year and/or department calendar
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const { year, department } = req.query;
+
+    const query = { isActive: true };
+    if (year) {
+      query.date = {
+        $gte: new Date(Date.UTC(Number(year), 0, 1)),
+        $lt: new Date(Date.UTC(Number(year) + 1, 0, 1))
+      };
+    }
+    // A department's calendar includes the organisation-wide holidays
+    if (department) {
+      query.$or = [{ department: { $exists: false } }, { department: null }, { department }];
+    }
+
+    const holidays = await Holiday.find(query)
+      .populate('department', 'name')
+      .sort({ date: 1 });
+
+    res.json(holidays);
+  } catch (error) {
+    console.error('Get holidays error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/holidays
+// @desc    Create holiday
+// @access  Private (Admin)
+router.post('/', auth, authorize('admin'), holidayValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, date, department } = req.body;
+
+    if (department) {
+      const departmentExists = await Department.findById(department);
+      if (!departmentExists) {
+        return res.status(400).json({ message: 'Department not found' });
+      }
+    }
+
+    const holiday = new Holiday({
+      name,
+      date: startOfDay(date),
+      department: department || undefined
+    });
+
+    await holiday.save();
+    await holiday.populate('department', 'name');
+
+    res.status(201).json({
+      message: 'Holiday created successfully',
+      holiday
+    });
+  } catch (error) {
+    console.error('Create holiday error:', error);
+    res.status(500).json({ message: 'Server error during holiday creation' });
+  }
+});
+
+// @route   PUT /api/holidays/:id
+// @desc    Update holiday
+// @access  Private (Admin)
+router.put('/:id', auth, authorize('admin'), holidayValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const holiday = await Holiday.findById(req.params.id);
+    if (!holiday) {
+      return res.status(404).json({ message: 'Holiday not found' });
+    }
+
+    const { name, date, department } = req.body;
+
+    if (department) {
+      const departmentExists = await Department.findById(department);
+      if (!departmentExists) {
+        return res.status(400).json({ message: 'Department not found' });
+      }
+    }
+
+    holiday.name = name;
+    holiday.date = startOfDay(date);
+    holiday.department = department || undefined;
+
+    await holiday.save();
+    await holiday.populate('department', 'name');
+
+    res.json({
+      message: 'Holiday updated successfully',
+      holiday
+    });
+  } catch (error) {
+    console.error('Update holiday error:', error);
+    res.status(500).json({ message: 'Server error during holiday update' });
+  }
+});
+
+// @route   DELETE /api/holidays/:id
+// @desc    Remove holiday from the calendar
+// @access  Private (Admin)
+router.delete('/:id', auth, authorize('admin'), async (req, res) => {
+  try {
+    const holiday = await Holiday.findById(req.params.id);
+    if (!holiday) {
+      return res.status(404).json({ message: 'Holiday not found' });
+    }
+
+    holiday.isActive = false;
+    await holiday.save();
+
+    res.json({ message: 'Holiday removed successfully' });
+  } catch (error) {
+    console.error('Remove holiday error:', error);
+    res.status(500).json({ message: 'Server error during holiday removal' });
+  }
+});
+
+module.exports = router;
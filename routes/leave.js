@@ -1,102 +1,417 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const LeaveRequest = require('../models/LeaveRequest');
 const LeaveBalance = require('../models/LeaveBalance');
+const BalanceImport = require('../models/BalanceImport');
 const User = require('../models/User');
 const { auth, authorize } = require('../middleware/auth');
+const { MAX_ATTACHMENTS, uploadAttachments, uploadImportFile } = require('../middleware/upload');
+const { storage } = require('../utils/storage');
 const { sendEmailNotification } = require('../utils/emailService');
+const { WORKDAY_HOURS, startOfDay, toDateKey, calculateLeaveDuration } = require('../utils/workingDays');
+const { getCurrentAcademicYear, allocateLeaveToYears } = require('../utils/academicYear');
+const {
+  CURRENT_APPROVER_EXPR,
+  resolveWorkflow,
+  buildApprovalSteps,
+  getActionableStep,
+  canAccessRequest,
+  recordDecision,
+  notifyApprover
+} = require('../utils/approvalWorkflow');
+const { getActiveDelegators } = require('../utils/delegation');
+const { findConflictingRequests, describeConflicts } = require('../utils/leaveOverlap');
+const { checkCoverageRules, describeViolations } = require('../utils/coverageRules');
+const { supersedeOriginal } = require('../utils/leaveAmendment');
+const {
+  checkCancellation,
+  getCancellationApprover,
+  applyCancellation,
+  notifyCancellationApprover,
+  notifyCancellationDecision
+} = require('../utils/leaveCancellation');
+const { TRACKED_FIELDS, snapshot, diffSnapshots, recordEvent, getHistory } = require('../utils/leaveHistory');
+const { getComments, addComment } = require('../utils/leaveComments');
+const { EXPORT_FORMATS, exportLeaveRecords } = require('../utils/leaveExport');
+const { importBalances, rollbackBalanceImport } = require('../utils/balanceImport');
+const { roundDays, getAvailableDays, postLedgerEntry, getRequestCharges, syncRequestCharges, rebuildBalances, getBalanceStatement } = require('../utils/leaveLedger');
+const { httpError } = require('../utils/httpError');
+const { LEAVE_TYPES } = require('../utils/leaveTypes');
+const { getReportScope } = require('../utils/leaveReports');
 
 const router = express.Router();
 
-// @route   POST /api/leave/request
-// @desc    Create a new leave request
-// @access  Private
-router.post('/request', auth, [
+// Duration fields shared by the request and preview endpoints (`location` is body or query)
+const durationValidation = (location) => [
+  location('durationType').optional().isIn(['full_day', 'half_day', 'hourly']).withMessage('Invalid duration type'),
+  location('halfDayPeriod')
+    .if(location('durationType').equals('half_day'))
+    .isIn(['first_half', 'second_half']).withMessage('Half-day leave must be for the first or second half'),
+  location('hours')
+    .if(location('durationType').equals('hourly'))
+    .isFloat({ gt: 0, max: WORKDAY_HOURS }).withMessage(`Hourly leave must be between 0 and ${WORKDAY_HOURS} hours`)
+];
+
+// Requests crossing a year boundary belong to every year they charge
+const matchAcademicYear = (academicYear) => [
+  { academicYear },
+  { 'yearAllocations.academicYear': academicYear }
+];
+
+// Write uploaded files to storage and describe them for the request's attachments
+const storeAttachments = async (files = [], uploadedBy) => {
+  const attachments = [];
+  for (const file of files) {
+    attachments.push({
+      filename: await storage.save(file.buffer, file.originalname),
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      uploadedBy
+    });
+  }
+  return attachments;
+};
+
+// Uploads are recorded in the request's history by file name
+const recordAttachmentsAdded = (leaveRequest, previous, added, actor) => {
+  if (!added.length) return null;
+  const names = (attachments) => attachments.map((attachment) => attachment.originalName);
+  return recordEvent(leaveRequest, 'attachment_added', {
+    actor,
+    changes: [{ field: 'attachments', before: names(previous), after: names([...previous, ...added]) }]
+  });
+};
+
+// Full-day leave may span several days; half-day and hourly leave cover a single day
+const checkRequestDates = (start, end, durationType) => {
+  if (startOfDay(start) > startOfDay(end)) {
+    return 'End date must be on or after start date';
+  }
+  if (durationType !== 'full_day' && toDateKey(start) !== toDateKey(end)) {
+    return 'Half-day and hourly leave must start and end on the same day';
+  }
+  return null;
+};
+
+// Check a new request, or an amendment replacing `original`, against the employee's other
+// leave, department rules and balance, and build it with its approval chain. The original
+// stays in force until the amendment is approved, so its dates and charges are set aside.
+const prepareLeaveRequest = async (req, original) => {
+  const { leaveType, startDate, endDate, reason, durationType = 'full_day', halfDayPeriod, hours } = req.body;
+
+  // Validate dates
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+
+  const dateError = checkRequestDates(start, end, durationType);
+  if (dateError) {
+    throw httpError(400, dateError);
+  }
+
+  // Leave already under way can still be amended as long as it keeps its start date
+  const keepsStart = original && toDateKey(original.startDate) === toDateKey(start);
+  if (startOfDay(start) < startOfDay(new Date()) && !keepsStart) {
+    throw httpError(400, 'Cannot request leave for past dates');
+  }
+
+  const excludeIds = original ? [original._id] : [];
+
+  // An employee can't hold two requests for the same time
+  const conflicts = await findConflictingRequests({
+    employeeId: req.userId,
+    startDate: start,
+    endDate: end,
+    durationType,
+    halfDayPeriod,
+    hours,
+    excludeIds
+  });
+  if (conflicts.length) {
+    throw httpError(400, describeConflicts(conflicts), { conflicts });
+  }
+
+  // Department blackout periods and coverage limits
+  const violations = await checkCoverageRules({
+    employeeId: req.userId,
+    departmentId: req.user.department,
+    leaveType,
+    startDate: start,
+    endDate: end,
+    excludeIds
+  });
+  if (violations.length) {
+    throw httpError(400, describeViolations(violations), { violations });
+  }
+
+  // Only working days are charged, each to the academic year it falls in
+  const yearAllocations = await allocateLeaveToYears({
+    startDate: start,
+    endDate: end,
+    departmentId: req.user.department,
+    durationType,
+    hours
+  });
+  const totalDays = roundDays(yearAllocations.reduce((sum, allocation) => sum + allocation.days, 0));
+
+  if (totalDays === 0) {
+    throw httpError(400, 'Selected dates do not include any working days');
+  }
+
+  // Days the original holds are credited back when an amendment is approved
+  const releasedDays = {};
+  (original ? getRequestCharges(original) : []).forEach((charge) => {
+    releasedDays[`${charge.academicYear}:${charge.leaveType}`] = charge.days;
+  });
+
+  // Check leave balance for every year the request touches
+  for (const allocation of yearAllocations) {
+    const leaveBalance = await LeaveBalance.findOne({
+      employee: req.userId,
+      academicYear: allocation.academicYear,
+      leaveType
+    });
+
+    // Accruing balances may allow borrowing against days not yet accrued
+    const available = leaveBalance
+      ? roundDays(getAvailableDays(leaveBalance) + (releasedDays[`${allocation.academicYear}:${leaveType}`] || 0))
+      : null;
+    if (leaveBalance && available < allocation.days) {
+      throw httpError(400, `Insufficient leave balance for ${allocation.academicYear}. Available: ${available} days, Requested: ${allocation.days} days`);
+    }
+  }
+
+  // The approval chain depends on the leave type, department and length of the request
+  const workflow = await resolveWorkflow({ leaveType, totalDays, department: req.user.department });
+
+  return new LeaveRequest({
+    employee: req.userId,
+    leaveType,
+    startDate: start,
+    endDate: end,
+    durationType,
+    halfDayPeriod: durationType === 'half_day' ? halfDayPeriod : undefined,
+    hours: durationType === 'hourly' ? Number(hours) : undefined,
+    totalDays,
+    reason,
+    academicYear: yearAllocations[0].academicYear,
+    yearAllocations,
+    workflow: workflow ? workflow._id : undefined,
+    approvalSteps: await buildApprovalSteps(workflow, req.user),
+    amendmentOf: original ? original._id : undefined
+  });
+};
+
+// Fields shared by new requests and amendments
+const requestValidation = [
   body('leaveType').isIn(['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other']).withMessage('Invalid leave type'),
   body('startDate').isISO8601().withMessage('Valid start date is required'),
   body('endDate').isISO8601().withMessage('Valid end date is required'),
+  ...durationValidation(body),
   body('reason').notEmpty().withMessage('Reason is required')
-], async (req, res) => {
+];
+
+// @route   POST /api/leave/request
+// @desc    Create a new leave request
+// @access  Private
+router.post('/request', auth, uploadAttachments, requestValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { leaveType, startDate, endDate, reason, academicYear } = req.body;
+    const leaveRequest = await prepareLeaveRequest(req);
 
-    // Validate dates
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    if (start >= end) {
-      return res.status(400).json({ message: 'End date must be after start date' });
+    // Supporting documents are only stored once the request is accepted
+    leaveRequest.attachments = await storeAttachments(req.files, req.userId);
+
+    await leaveRequest.save();
+    await leaveRequest.populate('employee', 'name email employeeId department');
+
+    await recordEvent(leaveRequest, 'submitted', {
+      actor: req.userId,
+      changes: diffSnapshots({}, snapshot(leaveRequest))
+    });
+    await recordAttachmentsAdded(leaveRequest, [], leaveRequest.attachments, req.userId);
+
+    // Let the first stage's approver know
+    await notifyApprover(leaveRequest, leaveRequest.approvalSteps[0]);
+
+    res.status(201).json({
+      message: 'Leave request submitted successfully',
+      leaveRequest
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message, ...error.details });
+    }
+    console.error('Leave request error:', error);
+    res.status(500).json({ message: 'Server error during leave request submission' });
+  }
+});
+
+// @route   POST /api/leave/request/:id/amend
+// @desc    Propose new dates or leave type for an approved leave request
+// @access  Private (Employee)
+router.post('/request/:id/amend', auth, uploadAttachments, requestValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    if (start < new Date()) {
-      return res.status(400).json({ message: 'Cannot request leave for past dates' });
+    const original = await LeaveRequest.findOne({
+      _id: req.params.id,
+      employee: req.userId
+    });
+
+    if (!original) {
+      return res.status(404).json({ message: 'Leave request not found' });
     }
 
-    // Calculate total days
-    const timeDiff = end.getTime() - start.getTime();
-    const totalDays = Math.ceil(timeDiff / (1000 * 3600 * 24)) + 1;
+    if (original.status !== 'approved') {
+      return res.status(400).json({ message: 'Only approved leave requests can be amended' });
+    }
 
-    // Get current academic year if not provided
-    const currentYear = academicYear || new Date().getFullYear().toString();
+    if (await LeaveRequest.exists({ amendmentOf: original._id, status: 'pending' })) {
+      return res.status(400).json({ message: 'This leave request already has an amendment awaiting approval' });
+    }
 
-    // Check leave balance
-    const leaveBalance = await LeaveBalance.findOne({
-      employee: req.userId,
-      academicYear: currentYear,
-      leaveType
+    if (original.cancellationRequest && original.cancellationRequest.status === 'pending') {
+      return res.status(400).json({ message: 'This leave request has a cancellation awaiting approval' });
+    }
+
+    // The amendment goes through approval again while the original remains in force
+    const amendment = await prepareLeaveRequest(req, original);
+    amendment.attachments = await storeAttachments(req.files, req.userId);
+
+    await amendment.save();
+    await amendment.populate('employee', 'name email employeeId department');
+
+    // The original's history shows what the amendment proposes to change
+    const amendable = TRACKED_FIELDS.filter((field) => field !== 'status');
+    await recordEvent(amendment, 'submitted', {
+      actor: req.userId,
+      changes: diffSnapshots({}, snapshot(amendment)),
+      description: `Amendment of leave request ${original._id}`
+    });
+    await recordAttachmentsAdded(amendment, [], amendment.attachments, req.userId);
+    await recordEvent(original, 'amendment_requested', {
+      actor: req.userId,
+      changes: diffSnapshots(snapshot(original, amendable), snapshot(amendment, amendable)),
+      description: `Amendment submitted as leave request ${amendment._id}`
     });
 
-    if (leaveBalance && leaveBalance.remaining < totalDays) {
-      return res.status(400).json({ 
-        message: `Insufficient leave balance. Available: ${leaveBalance.remaining} days, Requested: ${totalDays} days` 
-      });
+    await notifyApprover(amendment, amendment.approvalSteps[0]);
+
+    res.status(201).json({
+      message: 'Amendment submitted for approval',
+      leaveRequest: amendment
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message, ...error.details });
     }
+    console.error('Leave amendment error:', error);
+    res.status(500).json({ message: 'Server error during leave amendment' });
+  }
+});
 
-    // Create leave request
-    const leaveRequest = new LeaveRequest({
-      employee: req.userId,
-      leaveType,
+// @route   GET /api/leave/working-days
+// @desc    Preview the chargeable working days for a date range
+// @access  Private
+router.get('/working-days', auth, [
+  query('startDate').isISO8601().withMessage('Valid start date is required'),
+  query('endDate').isISO8601().withMessage('Valid end date is required'),
+  ...durationValidation(query)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { startDate, endDate, durationType = 'full_day', hours } = req.query;
+
+    const dateError = checkRequestDates(new Date(startDate), new Date(endDate), durationType);
+    if (dateError) {
+      return res.status(400).json({ message: dateError });
+    }
+
+    const duration = { startDate, endDate, departmentId: req.user.department, durationType, hours };
+    const [workingDays, yearAllocations] = await Promise.all([
+      calculateLeaveDuration(duration),
+      allocateLeaveToYears(duration)
+    ]);
+
+    res.json({ ...workingDays, yearAllocations });
+  } catch (error) {
+    console.error('Working days preview error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/leave/validate
+// @desc    Check a leave request's dates before it is submitted
+// @access  Private
+router.post('/validate', auth, [
+  body('leaveType').optional().isIn(['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other']).withMessage('Invalid leave type'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('endDate').isISO8601().withMessage('Valid end date is required'),
+  ...durationValidation(body),
+  body('amendmentOf').optional().isMongoId().withMessage('Invalid leave request')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { leaveType, startDate, endDate, durationType = 'full_day', halfDayPeriod, hours, amendmentOf } = req.body;
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+
+    const dateError = checkRequestDates(start, end, durationType);
+    if (dateError) {
+      return res.json({ valid: false, message: dateError, conflicts: [], violations: [] });
+    }
+
+    // An amendment replaces the request it amends, so can't clash with it
+    const conflicts = await findConflictingRequests({
+      employeeId: req.userId,
       startDate: start,
       endDate: end,
-      totalDays,
-      reason,
-      academicYear: currentYear
+      durationType,
+      halfDayPeriod,
+      hours,
+      excludeIds: amendmentOf ? [amendmentOf] : []
     });
 
-    await leaveRequest.save();
-    await leaveRequest.populate('employee', 'name email employeeId department');
+    // Blackout periods depend on the leave type, so rules are only checked once it is chosen
+    const violations = leaveType
+      ? await checkCoverageRules({
+        employeeId: req.userId,
+        departmentId: req.user.department,
+        leaveType,
+        startDate: start,
+        endDate: end
+      })
+      : [];
 
-    // Send email notification to manager
-    const employee = await User.findById(req.userId).populate('manager', 'name email');
-    if (employee.manager) {
-      await sendEmailNotification({
-        to: employee.manager.email,
-        subject: 'New Leave Request',
-        template: 'leave_request',
-        data: {
-          employeeName: employee.name,
-          managerName: employee.manager.name,
-          leaveType,
-          startDate: start.toDateString(),
-          endDate: end.toDateString(),
-          totalDays,
-          reason
-        }
-      });
-    }
+    const messages = [];
+    if (conflicts.length) messages.push(describeConflicts(conflicts));
+    if (violations.length) messages.push(describeViolations(violations));
 
-    res.status(201).json({
-      message: 'Leave request submitted successfully',
-      leaveRequest
+    res.json({
+      valid: messages.length === 0,
+      message: messages.length ? messages.join('; ') : undefined,
+      conflicts,
+      violations
     });
   } catch (error) {
-    console.error('Leave request error:', error);
-    res.status(500).json({ message: 'Server error during leave request submission' });
+    console.error('Leave validation error:', error);
+    res.status(500).json({ message: 'Server error' });
   }
 });
 
@@ -108,13 +423,14 @@ router.get('/my-requests', auth, async (req, res) => {
     const { academicYear, status, page = 1, limit = 10 } = req.query;
     
     const query = { employee: req.userId };
-    if (academicYear) query.academicYear = academicYear;
+    if (academicYear) query.$or = matchAcademicYear(academicYear);
     if (status) query.status = status;
 
     const leaveRequests = await LeaveRequest.find(query)
       .populate('employee', 'name email employeeId')
-      .populate('managerApproval.approvedBy', 'name email')
-      .populate('coordinatorApproval.approvedBy', 'name email')
+      .populate('approvalSteps.approvedBy', 'name email')
+      .populate('approvalSteps.assignedTo', 'name email')
+      .populate('approvalSteps.onBehalfOf', 'name email')
       .sort({ createdAt: -1 })
       .limit(limit * 1)
       .skip((page - 1) * limit);
@@ -133,29 +449,238 @@ router.get('/my-requests', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/leave/request/:id
+// @desc    Get a leave request with its approvals and attachments
+// @access  Private (Employee/Approvers/Admin)
+router.get('/request/:id', auth, async (req, res) => {
+  try {
+    const leaveRequest = await LeaveRequest.findById(req.params.id)
+      .populate('employee', 'name email employeeId department')
+      .populate('approvalSteps.approvedBy', 'name email')
+      .populate('approvalSteps.assignedTo', 'name email')
+      .populate('approvalSteps.onBehalfOf', 'name email')
+      .populate('attachments.uploadedBy', 'name')
+      .populate('amendmentOf', 'leaveType startDate endDate totalDays status')
+      .populate('supersededBy', 'leaveType startDate endDate totalDays status')
+      .populate('cancellationRequest.assignedTo', 'name email')
+      .populate('cancellationRequest.decidedBy', 'name email')
+      .populate('informationRequest.requestedBy', 'name email');
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (!await canAccessRequest(leaveRequest, req.user)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const pendingAmendment = await LeaveRequest.findOne({ amendmentOf: leaveRequest._id, status: 'pending' })
+      .select('leaveType startDate endDate totalDays status');
+
+    res.json({ ...leaveRequest.toObject(), pendingAmendment });
+  } catch (error) {
+    console.error('Get leave request error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/leave/request/:id/history
+// @desc    Get the history of changes made to a leave request
+// @access  Private (Employee/Approvers/Admin)
+router.get('/request/:id/history', auth, async (req, res) => {
+  try {
+    const leaveRequest = await LeaveRequest.findById(req.params.id);
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (!await canAccessRequest(leaveRequest, req.user)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    res.json(await getHistory(leaveRequest._id));
+  } catch (error) {
+    console.error('Get leave history error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/leave/request/:id/comments
+// @desc    Get the discussion on a leave request
+// @access  Private (Employee/Approvers/Admin)
+router.get('/request/:id/comments', auth, async (req, res) => {
+  try {
+    const leaveRequest = await LeaveRequest.findById(req.params.id);
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (!await canAccessRequest(leaveRequest, req.user)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    res.json(await getComments(leaveRequest._id));
+  } catch (error) {
+    console.error('Get leave comments error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/leave/request/:id/comments
+// @desc    Comment on a leave request; approvers can ask the employee for information
+// @access  Private (Employee/Approvers/Admin)
+router.post('/request/:id/comments', auth, [
+  body('body').trim().notEmpty().withMessage('Comment is required'),
+  body('requestsInformation').optional().isBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const leaveRequest = await LeaveRequest.findById(req.params.id);
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (!await canAccessRequest(leaveRequest, req.user)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const comment = await addComment(leaveRequest, req.user, {
+      body: req.body.body,
+      requestsInformation: req.body.requestsInformation === true || req.body.requestsInformation === 'true'
+    });
+
+    res.status(201).json({
+      message: comment.requestsInformation ? 'Information requested from the employee' : 'Comment added',
+      comment
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Add leave comment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/leave/request/:id/attachments
+// @desc    Attach documents to an existing leave request, e.g. a medical certificate
+// @access  Private (Employee)
+router.post('/request/:id/attachments', auth, uploadAttachments, async (req, res) => {
+  try {
+    const leaveRequest = await LeaveRequest.findById(req.params.id);
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (leaveRequest.employee.toString() !== req.userId.toString()) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    if (leaveRequest.status === 'cancelled') {
+      return res.status(400).json({ message: 'Cannot attach documents to a cancelled leave request' });
+    }
+
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({ message: 'No files were uploaded' });
+    }
+
+    if (leaveRequest.attachments.length + req.files.length > MAX_ATTACHMENTS) {
+      return res.status(400).json({ message: `A leave request can have at most ${MAX_ATTACHMENTS} attachments` });
+    }
+
+    const previous = [...leaveRequest.attachments];
+    const added = await storeAttachments(req.files, req.userId);
+    leaveRequest.attachments.push(...added);
+    await leaveRequest.save();
+
+    await recordAttachmentsAdded(leaveRequest, previous, added, req.userId);
+    await leaveRequest.populate('attachments.uploadedBy', 'name');
+
+    res.status(201).json({
+      message: 'Attachments uploaded successfully',
+      attachments: leaveRequest.attachments
+    });
+  } catch (error) {
+    console.error('Upload attachments error:', error);
+    res.status(500).json({ message: 'Server error during attachment upload' });
+  }
+});
+
+// @route   GET /api/leave/request/:id/attachments/:attachmentId
+// @desc    Download an attachment
+// @access  Private (Employee/Approvers/Admin)
+router.get('/request/:id/attachments/:attachmentId', auth, async (req, res) => {
+  try {
+    const leaveRequest = await LeaveRequest.findById(req.params.id);
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (!await canAccessRequest(leaveRequest, req.user)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const attachment = leaveRequest.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const file = storage.read(attachment.filename);
+    file.on('error', (error) => {
+      console.error('Read attachment error:', error);
+      if (!res.headersSent) {
+        res.status(404).json({ message: 'Attachment file is missing' });
+      } else {
+        res.end();
+      }
+    });
+    file.once('open', () => {
+      res.attachment(attachment.originalName);
+      res.type(attachment.mimeType || 'application/octet-stream');
+      file.pipe(res);
+    });
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // @route   GET /api/leave/pending-approvals
 // @desc    Get pending approvals for managers/coordinators
 // @access  Private (Manager/Coordinator)
 router.get('/pending-approvals', auth, authorize('manager', 'coordinator', 'admin'), async (req, res) => {
   try {
     const user = await User.findById(req.userId);
-    let query = {};
 
-    if (user.role === 'manager') {
+    // Nobody approves their own leave, including as a delegate for their own approver
+    let query = { employee: { $ne: user._id } };
+
+    // Managers and coordinators only see requests whose open stage is waiting on them or
+    // on an approver they are currently standing in for
+    if (user.role === 'manager' || user.role === 'coordinator') {
+      const delegators = await getActiveDelegators(user._id);
       query = {
-        $or: [
-          { 'managerApproval.status': 'pending' },
-          { 'coordinatorApproval.status': 'pending' }
-        ]
+        ...query,
+        status: 'pending',
+        $expr: { $in: [CURRENT_APPROVER_EXPR, [user._id, ...delegators]] }
       };
-    } else if (user.role === 'coordinator') {
-      query = { 'coordinatorApproval.status': 'pending' };
     }
 
     const leaveRequests = await LeaveRequest.find(query)
       .populate('employee', 'name email employeeId department')
-      .populate('managerApproval.approvedBy', 'name email')
-      .populate('coordinatorApproval.approvedBy', 'name email')
+      .populate('approvalSteps.approvedBy', 'name email')
+      .populate('approvalSteps.assignedTo', 'name email')
+      .populate('approvalSteps.onBehalfOf', 'name email')
+      .populate('amendmentOf', 'leaveType startDate endDate totalDays')
       .sort({ createdAt: -1 });
 
     res.json(leaveRequests);
@@ -165,11 +690,44 @@ router.get('/pending-approvals', auth, authorize('manager', 'coordinator', 'admi
   }
 });
 
+// @route   GET /api/leave/rule-check/:id
+// @desc    Department rules that approving a pending request would break
+// @access  Private (Manager/Coordinator/Admin)
+router.get('/rule-check/:id', auth, authorize('manager', 'coordinator', 'admin'), async (req, res) => {
+  try {
+    const leaveRequest = await LeaveRequest.findById(req.params.id)
+      .populate('employee', 'department');
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (!await canAccessRequest(leaveRequest, req.user)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const violations = await checkCoverageRules({
+      employeeId: leaveRequest.employee._id,
+      departmentId: leaveRequest.employee.department,
+      leaveType: leaveRequest.leaveType,
+      startDate: leaveRequest.startDate,
+      endDate: leaveRequest.endDate
+    });
+
+    res.json({ violations });
+  } catch (error) {
+    console.error('Rule check error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // @route   PUT /api/leave/approve/:id
 // @desc    Approve/reject leave request
 // @access  Private (Manager/Coordinator)
 router.put('/approve/:id', auth, authorize('manager', 'coordinator', 'admin'), [
   body('status').isIn(['approved', 'rejected']).withMessage('Status must be approved or rejected'),
+  body('step').optional().isMongoId().withMessage('Invalid approval stage'),
+  body('acknowledgeWarnings').optional().isBoolean(),
   body('comments').optional().isString()
 ], async (req, res) => {
   try {
@@ -178,66 +736,110 @@ router.put('/approve/:id', auth, authorize('manager', 'coordinator', 'admin'), [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { status, comments } = req.body;
+    const { status, step: stepId, comments, acknowledgeWarnings } = req.body;
     const user = await User.findById(req.userId);
     
     const leaveRequest = await LeaveRequest.findById(req.params.id)
-      .populate('employee', 'name email');
+      .populate('employee', 'name email department');
 
     if (!leaveRequest) {
       return res.status(404).json({ message: 'Leave request not found' });
     }
 
-    // Update approval based on role
-    if (user.role === 'manager' || user.role === 'admin') {
-      leaveRequest.managerApproval = {
-        status,
-        approvedBy: req.userId,
-        approvedAt: new Date(),
-        comments
-      };
+    if (leaveRequest.status !== 'pending') {
+      return res.status(400).json({ message: `Leave request is already ${leaveRequest.status}` });
     }
 
-    if (user.role === 'coordinator' || user.role === 'admin') {
-      leaveRequest.coordinatorApproval = {
-        status,
-        approvedBy: req.userId,
-        approvedAt: new Date(),
-        comments
-      };
+    // Stages are decided in order by their assigned approver or that approver's delegate;
+    // admins may override the open stage
+    const delegators = await getActiveDelegators(user._id);
+    const { step, onBehalfOf, override } = getActionableStep(leaveRequest, user, stepId, delegators);
+
+    // Other requests may have been approved since this one was made, so the department's
+    // rules are checked again; approving past them has to be acknowledged
+    let ruleWarnings = [];
+    if (status === 'approved') {
+      const violations = await checkCoverageRules({
+        employeeId: leaveRequest.employee._id,
+        departmentId: leaveRequest.employee.department,
+        leaveType: leaveRequest.leaveType,
+        startDate: leaveRequest.startDate,
+        endDate: leaveRequest.endDate
+      });
+      if (violations.length && !acknowledgeWarnings) {
+        return res.status(400).json({ message: describeViolations(violations), violations });
+      }
+      ruleWarnings = violations.map((violation) => violation.message);
     }
 
-    // Update overall status
-    if (status === 'rejected') {
-      leaveRequest.status = 'rejected';
-    } else if (leaveRequest.managerApproval.status === 'approved' && 
-               leaveRequest.coordinatorApproval.status === 'approved') {
-      leaveRequest.status = 'approved';
+    const before = snapshot(leaveRequest);
+    const nextStep = recordDecision(leaveRequest, step, {
+      status,
+      approverId: req.userId,
+      onBehalfOf,
+      comments,
+      override
+    });
+    step.ruleWarnings = ruleWarnings;
+
+    // Deciding the stage ends any wait for information from the employee
+    leaveRequest.informationRequest = undefined;
+
+    // An approved amendment takes over from the original, whose days are credited back first
+    if (leaveRequest.status === 'approved' && leaveRequest.amendmentOf) {
+      await supersedeOriginal(leaveRequest, req.userId);
     }
 
+    // Debit the balance once every step has approved
+    await syncRequestCharges(leaveRequest, req.userId);
+
     await leaveRequest.save();
 
-    // Send email notification to employee
-    await sendEmailNotification({
-      to: leaveRequest.employee.email,
-      subject: `Leave Request ${status.charAt(0).toUpperCase() + status.slice(1)}`,
-      template: 'leave_approval',
-      data: {
-        employeeName: leaveRequest.employee.name,
-        leaveType: leaveRequest.leaveType,
-        startDate: leaveRequest.startDate.toDateString(),
-        endDate: leaveRequest.endDate.toDateString(),
-        status,
-        comments,
-        approvedBy: user.name
-      }
+    await recordEvent(leaveRequest, status === 'approved' ? 'stage_approved' : 'stage_rejected', {
+      actor: req.userId,
+      onBehalfOf,
+      step,
+      changes: [
+        { field: `${step.role} approval`, before: 'pending', after: status },
+        ...diffSnapshots(before, snapshot(leaveRequest))
+      ],
+      description: [
+        override ? 'Admin override' : null,
+        ruleWarnings.length ? `Approved past department rules: ${ruleWarnings.join('; ')}` : null,
+        comments
+      ].filter(Boolean).join('. ') || undefined
     });
 
+    if (nextStep) {
+      // Hand the request on to the next stage's approver
+      await notifyApprover(leaveRequest, nextStep);
+    } else {
+      // Send email notification to employee once the request is decided
+      const delegator = onBehalfOf ? await User.findById(onBehalfOf) : null;
+      await sendEmailNotification({
+        to: leaveRequest.employee.email,
+        subject: `Leave Request ${status.charAt(0).toUpperCase() + status.slice(1)}`,
+        template: 'leave_approval',
+        data: {
+          employeeName: leaveRequest.employee.name,
+          leaveType: leaveRequest.leaveType,
+          startDate: leaveRequest.startDate.toDateString(),
+          endDate: leaveRequest.endDate.toDateString(),
+          status,
+          comments,
+          approvedBy: delegator ? `${user.name} on behalf of ${delegator.name}` : user.name
+        }
+      });
+    }
+
     res.json({
       message: `Leave request ${status} successfully`,
       leaveRequest
     });
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
     console.error('Leave approval error:', error);
     res.status(500).json({ message: 'Server error during approval' });
   }
@@ -249,7 +851,7 @@ router.put('/approve/:id', auth, authorize('manager', 'coordinator', 'admin'), [
 router.get('/balance', auth, async (req, res) => {
   try {
     const { academicYear } = req.query;
-    const currentYear = academicYear || new Date().getFullYear().toString();
+    const currentYear = academicYear || (await getCurrentAcademicYear()).label;
 
     const leaveBalances = await LeaveBalance.find({
       employee: req.userId,
@@ -263,40 +865,277 @@ router.get('/balance', auth, async (req, res) => {
   }
 });
 
-// @route   GET /api/leave/records/:academicYear
-// @desc    Get leave records for academic year
+// @route   GET /api/leave/balance/ledger
+// @desc    Get the ledger entries behind a leave balance
 // @access  Private
-router.get('/records/:academicYear', auth, async (req, res) => {
+router.get('/balance/ledger', auth, async (req, res) => {
   try {
-    const { academicYear } = req.params;
-    const { employeeId } = req.query;
+    const { academicYear, leaveType, employeeId } = req.query;
+    const currentYear = academicYear || (await getCurrentAcademicYear()).label;
 
-    let query = { academicYear };
-    
-    // If employeeId is provided and user is manager/coordinator/admin, get that employee's records
-    if (employeeId && (req.user.role === 'manager' || req.user.role === 'coordinator' || req.user.role === 'admin')) {
-      const employee = await User.findOne({ employeeId });
-      if (employee) {
-        query.employee = employee._id;
+    let employee = req.userId;
+
+    // Managers/coordinators/admins may look up another employee's statement
+    if (employeeId && ['manager', 'coordinator', 'admin'].includes(req.user.role)) {
+      const employeeUser = await User.findOne({ employeeId });
+      if (!employeeUser) {
+        return res.status(404).json({ message: 'Employee not found' });
       }
-    } else {
-      // Otherwise, get current user's records
-      query.employee = req.userId;
+      employee = employeeUser._id;
+    }
+
+    const entries = await getBalanceStatement({
+      employee,
+      academicYear: currentYear,
+      leaveType
+    });
+
+    res.json(entries);
+  } catch (error) {
+    console.error('Get leave ledger error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/leave/balance/adjust
+// @desc    Manually adjust an employee's leave allocation
+// @access  Private (Admin)
+router.post('/balance/adjust', auth, authorize('admin'), [
+  body('employee').isMongoId().withMessage('Valid employee is required'),
+  body('academicYear').notEmpty().withMessage('Academic year is required'),
+  body('leaveType').isIn(['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other']).withMessage('Invalid leave type'),
+  body('days').isFloat().custom((value) => Number(value) !== 0).withMessage('Days must be a non-zero number'),
+  body('description').notEmpty().withMessage('Description is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { employee, academicYear, leaveType, days, description } = req.body;
+
+    const employeeUser = await User.findById(employee);
+    if (!employeeUser) {
+      return res.status(404).json({ message: 'Employee not found' });
+    }
+
+    const entry = await postLedgerEntry({
+      employee,
+      academicYear,
+      leaveType,
+      entryType: 'adjustment',
+      days: Number(days),
+      description,
+      createdBy: req.userId
+    });
+
+    res.status(201).json({
+      message: 'Leave balance adjusted successfully',
+      entry
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
     }
+    console.error('Adjust leave balance error:', error);
+    res.status(500).json({ message: 'Server error during balance adjustment' });
+  }
+});
+
+// @route   POST /api/leave/balance/import
+// @desc    Set opening leave balances from a CSV file. Checks every row and reports per-row
+//          errors; nothing is written unless dryRun is false and every row is valid
+// @access  Private (Admin)
+router.post('/balance/import', auth, authorize('admin'), uploadImportFile, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'Upload a CSV file in the "file" field' });
+    }
+
+    const result = await importBalances(req.file.buffer.toString('utf8'), {
+      dryRun: req.body.dryRun !== 'false',
+      filename: req.file.originalname,
+      actorId: req.userId
+    });
+
+    if (!result.dryRun && !result.valid) {
+      return res.status(400).json({ message: 'Fix the invalid rows before importing', ...result });
+    }
+
+    res.json({
+      message: result.imported
+        ? `Imported ${result.created + result.updated} leave balances`
+        : 'Checked import file; nothing was saved',
+      ...result
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Import leave balances error:', error);
+    res.status(500).json({ message: 'Server error during balance import' });
+  }
+});
+
+// @route   GET /api/leave/balance/imports
+// @desc    Get the log of opening balance imports
+// @access  Private (Admin)
+router.get('/balance/imports', auth, authorize('admin'), async (req, res) => {
+  try {
+    const balanceImports = await BalanceImport.find()
+      .populate('importedBy', 'name email')
+      .populate('rolledBackBy', 'name email')
+      .populate('items.employee', 'name employeeId')
+      .sort({ createdAt: -1 });
+
+    res.json(balanceImports);
+  } catch (error) {
+    console.error('Get balance imports error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/leave/balance/imports/:id/rollback
+// @desc    Undo an opening balance import through the ledger
+// @access  Private (Admin)
+router.post('/balance/imports/:id/rollback', auth, authorize('admin'), async (req, res) => {
+  try {
+    const balanceImport = await rollbackBalanceImport(req.params.id, req.userId);
+
+    res.json({
+      message: 'Balance import rolled back successfully',
+      balanceImport
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Roll back balance import error:', error);
+    res.status(500).json({ message: 'Server error during rollback' });
+  }
+});
+
+// @route   POST /api/leave/balance/rebuild
+// @desc    Recalculate an employee's leave balances from the ledger
+// @access  Private (Admin)
+router.post('/balance/rebuild', auth, authorize('admin'), [
+  body('employee').isMongoId().withMessage('Valid employee is required'),
+  body('academicYear').notEmpty().withMessage('Academic year is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { employee, academicYear } = req.body;
+    const leaveBalances = await rebuildBalances({ employee, academicYear });
+
+    res.json({
+      message: 'Leave balances recalculated successfully',
+      leaveBalances
+    });
+  } catch (error) {
+    console.error('Rebuild leave balance error:', error);
+    res.status(500).json({ message: 'Server error during balance recalculation' });
+  }
+});
+
+const LEAVE_STATUSES = ['pending', 'approved', 'rejected', 'cancelled', 'superseded'];
 
-    const leaveRecords = await LeaveRequest.find(query)
+const recordsValidation = [
+  query('employeeId').optional({ checkFalsy: true }).isString(),
+  query('department').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid department ID'),
+  query('status').optional({ checkFalsy: true }).isIn(LEAVE_STATUSES).withMessage('Invalid status'),
+  query('leaveType').optional({ checkFalsy: true }).isIn(LEAVE_TYPES).withMessage('Invalid leave type')
+];
+
+// Leave records for an academic year. Managers, coordinators and admins can look at one
+// employee or a whole department among those they report on (their direct reports, the
+// departments they coordinate, or everyone for admins); everyone else only sees their own
+const buildRecordsQuery = async (req) => {
+  const { employeeId, department, status, leaveType } = req.query;
+  const query = { $or: matchAcademicYear(req.params.academicYear) };
+  const isStaff = ['manager', 'coordinator', 'admin'].includes(req.user.role);
+
+  if (employeeId && isStaff) {
+    const employee = await User.findOne({ employeeId });
+    if (!employee) {
+      throw httpError(404, 'Employee not found');
+    }
+    const scope = await getReportScope(req.user);
+    const inScope = !scope || scope.some((id) => String(id) === String(employee._id));
+    if (!inScope && String(employee._id) !== String(req.userId)) {
+      throw httpError(403, 'You can only view the records of employees you manage or coordinate');
+    }
+    query.employee = employee._id;
+  } else if (department && isStaff) {
+    query.employee = { $in: await getReportScope(req.user, department) };
+  } else {
+    query.employee = req.userId;
+  }
+
+  if (status) query.status = status;
+  if (leaveType) query.leaveType = leaveType;
+  return query;
+};
+
+// @route   GET /api/leave/records/:academicYear
+// @desc    Get leave records for academic year (filter by employeeId, department, status, leaveType)
+// @access  Private
+router.get('/records/:academicYear', auth, recordsValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const leaveRecords = await LeaveRequest.find(await buildRecordsQuery(req))
       .populate('employee', 'name email employeeId')
-      .populate('managerApproval.approvedBy', 'name email')
-      .populate('coordinatorApproval.approvedBy', 'name email')
+      .populate('approvalSteps.approvedBy', 'name email')
+      .populate('approvalSteps.assignedTo', 'name email')
+      .populate('approvalSteps.onBehalfOf', 'name email')
       .sort({ startDate: -1 });
 
     res.json(leaveRecords);
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
     console.error('Get leave records error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
+// @route   GET /api/leave/records/:academicYear/export
+// @desc    Download leave records for academic year as CSV or XLSX (same filters, plus format)
+// @access  Private
+router.get('/records/:academicYear/export', auth, [
+  ...recordsValidation,
+  query('format').optional().isIn(EXPORT_FORMATS).withMessage('Format must be csv or xlsx')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const filename = `leave-records-${req.params.academicYear.replace(/[^\w-]/g, '')}`;
+    await exportLeaveRecords(res, await buildRecordsQuery(req), req.query.format || 'csv', filename);
+  } catch (error) {
+    if (error.status && !res.headersSent) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Export leave records error:', error);
+    // Once the file has started there is no way to report the error but to cut it short
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    res.status(500).json({ message: 'Server error during export' });
+  }
+});
+
 // @route   PUT /api/leave/cancel/:id
 // @desc    Cancel leave request
 // @access  Private
@@ -313,16 +1152,194 @@ router.put('/cancel/:id', auth, async (req, res) => {
     }
 
     leaveRequest.status = 'cancelled';
+    await syncRequestCharges(leaveRequest, req.userId);
     await leaveRequest.save();
 
+    await recordEvent(leaveRequest, 'cancelled', {
+      actor: req.userId,
+      changes: [{ field: 'status', before: 'pending', after: 'cancelled' }]
+    });
+
     res.json({
       message: 'Leave request cancelled successfully',
       leaveRequest
     });
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
     console.error('Cancel leave request error:', error);
     res.status(500).json({ message: 'Server error during cancellation' });
   }
 });
 
+// @route   POST /api/leave/request/:id/cancellation
+// @desc    Ask to cancel approved leave, or return early from leave in progress
+// @access  Private (Employee)
+router.post('/request/:id/cancellation', auth, [
+  body('reason').notEmpty().withMessage('Reason is required'),
+  body('returnDate').optional({ checkFalsy: true }).isISO8601().withMessage('Valid return date is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const leaveRequest = await LeaveRequest.findOne({
+      _id: req.params.id,
+      employee: req.userId
+    });
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    if (leaveRequest.status !== 'approved') {
+      return res.status(400).json({ message: 'Only approved leave needs a cancellation request; pending requests can be cancelled directly' });
+    }
+
+    if (leaveRequest.cancellationRequest && leaveRequest.cancellationRequest.status === 'pending') {
+      return res.status(400).json({ message: 'A cancellation is already awaiting approval' });
+    }
+
+    if (await LeaveRequest.exists({ amendmentOf: leaveRequest._id, status: 'pending' })) {
+      return res.status(400).json({ message: 'This leave request has an amendment awaiting approval' });
+    }
+
+    const returnDate = checkCancellation(leaveRequest, req.body.returnDate);
+
+    leaveRequest.cancellationRequest = {
+      status: 'pending',
+      returnDate,
+      reason: req.body.reason,
+      assignedTo: await getCancellationApprover(req.user),
+      requestedAt: new Date()
+    };
+    await leaveRequest.save();
+
+    await recordEvent(leaveRequest, 'cancellation_requested', {
+      actor: req.userId,
+      changes: returnDate ? [{ field: 'returnDate', before: null, after: returnDate }] : [],
+      description: req.body.reason
+    });
+
+    await notifyCancellationApprover(leaveRequest);
+
+    res.status(201).json({
+      message: returnDate ? 'Early return submitted for approval' : 'Cancellation submitted for approval',
+      leaveRequest
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Request cancellation error:', error);
+    res.status(500).json({ message: 'Server error during cancellation request' });
+  }
+});
+
+// @route   GET /api/leave/pending-cancellations
+// @desc    Get cancellations of approved leave awaiting a decision
+// @access  Private (Manager/Coordinator/Admin)
+router.get('/pending-cancellations', auth, authorize('manager', 'coordinator', 'admin'), async (req, res) => {
+  try {
+    const query = { 'cancellationRequest.status': 'pending', employee: { $ne: req.userId } };
+
+    // Managers only see their own reports' cancellations and those of approvers they stand in for
+    if (req.user.role !== 'admin') {
+      const delegators = await getActiveDelegators(req.userId);
+      query['cancellationRequest.assignedTo'] = { $in: [req.userId, ...delegators] };
+    }
+
+    const leaveRequests = await LeaveRequest.find(query)
+      .populate('employee', 'name email employeeId department')
+      .populate('cancellationRequest.assignedTo', 'name email')
+      .sort({ 'cancellationRequest.requestedAt': 1 });
+
+    res.json(leaveRequests);
+  } catch (error) {
+    console.error('Get pending cancellations error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/leave/cancellation/:id
+// @desc    Approve/reject a cancellation of approved leave
+// @access  Private (Manager/Coordinator/Admin)
+router.put('/cancellation/:id', auth, authorize('manager', 'coordinator', 'admin'), [
+  body('status').isIn(['approved', 'rejected']).withMessage('Status must be approved or rejected'),
+  body('comments').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { status, comments } = req.body;
+
+    const leaveRequest = await LeaveRequest.findById(req.params.id)
+      .populate('employee', 'name email department');
+
+    if (!leaveRequest) {
+      return res.status(404).json({ message: 'Leave request not found' });
+    }
+
+    const cancellation = leaveRequest.cancellationRequest;
+    if (!cancellation || cancellation.status !== 'pending') {
+      return res.status(400).json({ message: 'No cancellation is awaiting approval for this leave request' });
+    }
+
+    if (String(leaveRequest.employee._id) === String(req.userId)) {
+      return res.status(403).json({ message: 'You cannot decide the cancellation of your own leave' });
+    }
+
+    // Decided by the assigned manager or their delegate; admins can decide any other
+    let onBehalfOf;
+    const assignedTo = cancellation.assignedTo ? String(cancellation.assignedTo) : null;
+    if (req.user.role !== 'admin' && assignedTo !== String(req.userId)) {
+      const delegators = await getActiveDelegators(req.userId);
+      if (!assignedTo || !delegators.some((id) => String(id) === assignedTo)) {
+        return res.status(403).json({ message: 'You are not the approver for this cancellation' });
+      }
+      onBehalfOf = cancellation.assignedTo;
+    }
+
+    cancellation.status = status;
+    cancellation.decidedBy = req.userId;
+    cancellation.decidedAt = new Date();
+    cancellation.onBehalfOf = onBehalfOf;
+    cancellation.comments = comments;
+
+    // Shorten or cancel the leave and credit back the days given up
+    const before = snapshot(leaveRequest);
+    if (status === 'approved') {
+      await applyCancellation(leaveRequest, req.userId);
+    }
+
+    await leaveRequest.save();
+
+    await recordEvent(leaveRequest, status === 'approved' ? 'cancellation_approved' : 'cancellation_rejected', {
+      actor: req.userId,
+      onBehalfOf,
+      changes: diffSnapshots(before, snapshot(leaveRequest)),
+      description: comments
+    });
+
+    await notifyCancellationDecision(leaveRequest, req.user);
+
+    res.json({
+      message: `Cancellation ${status} successfully`,
+      leaveRequest
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Cancellation decision error:', error);
+    res.status(500).json({ message: 'Server error during cancellation decision' });
+  }
+});
+
 module.exports = router;
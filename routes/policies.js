@@ -0,0 +1,180 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const AllocationPolicy = require('../models/AllocationPolicy');
+const Department = require('../models/Department');
+const { auth, authorize } = require('../middleware/auth');
+const { allocateForAllUsers } = require('../utils/allocationService');
+const { getAcademicYearByLabel } = require('../utils/academicYear');
+
+const router = express.Router();
+
+const policyValidation = [
+  body('name').notEmpty().withMessage('Policy name is required'),
+  body('leaveType').isIn(['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other']).withMessage('Invalid leave type'),
+  body('days').isFloat({ min: 0 }).withMessage('Days must be zero or more'),
+  body('accrualFrequency').optional({ checkFalsy: true }).isIn(['annual', 'monthly', 'quarterly']).withMessage('Invalid accrual frequency'),
+  body('maxBorrowDays').optional({ checkFalsy: true }).isFloat({ min: 0 }).withMessage('Borrowing limit must be zero or more'),
+  body('carryForwardCap').optional({ checkFalsy: true }).isFloat({ min: 0 }).withMessage('Carry-forward cap must be zero or more'),
+  body('role').optional({ checkFalsy: true }).isIn(['employee', 'manager', 'coordinator', 'admin']).withMessage('Invalid role'),
+  body('department').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid department ID'),
+  body('position').optional().isString()
+];
+
+// @route   GET /api/policies
+// @desc    Get all allocation policies
+// @access  Private (Admin)
+router.get('/', auth, authorize('admin'), async (req, res) => {
+  try {
+    const policies = await AllocationPolicy.find({ isActive: true })
+      .populate('department', 'name')
+      .sort({ leaveType: 1, name: 1 });
+
+    res.json(policies);
+  } catch (error) {
+    console.error('Get policies error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/policies
+// @desc    Create allocation policy
+// @access  Private (Admin)
+router.post('/', auth, authorize('admin'), policyValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, leaveType, days, accrualFrequency, maxBorrowDays, carryForwardCap, role, department, position } = req.body;
+
+    if (department) {
+      const departmentExists = await Department.findById(department);
+      if (!departmentExists) {
+        return res.status(400).json({ message: 'Department not found' });
+      }
+    }
+
+    const policy = new AllocationPolicy({
+      name,
+      leaveType,
+      days,
+      accrualFrequency: accrualFrequency || 'annual',
+      maxBorrowDays: maxBorrowDays || 0,
+      carryForwardCap: carryForwardCap || 0,
+      role: role || undefined,
+      department: department || undefined,
+      position: position || undefined
+    });
+
+    await policy.save();
+    await policy.populate('department', 'name');
+
+    res.status(201).json({
+      message: 'Allocation policy created successfully',
+      policy
+    });
+  } catch (error) {
+    console.error('Create policy error:', error);
+    res.status(500).json({ message: 'Server error during policy creation' });
+  }
+});
+
+// @route   PUT /api/policies/:id
+// @desc    Update allocation policy
+// @access  Private (Admin)
+router.put('/:id', auth, authorize('admin'), policyValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const policy = await AllocationPolicy.findById(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ message: 'Allocation policy not found' });
+    }
+
+    const { name, leaveType, days, accrualFrequency, maxBorrowDays, carryForwardCap, role, department, position } = req.body;
+
+    if (department) {
+      const departmentExists = await Department.findById(department);
+      if (!departmentExists) {
+        return res.status(400).json({ message: 'Department not found' });
+      }
+    }
+
+    policy.name = name;
+    policy.leaveType = leaveType;
+    policy.days = days;
+    policy.accrualFrequency = accrualFrequency || 'annual';
+    policy.maxBorrowDays = maxBorrowDays || 0;
+    policy.carryForwardCap = carryForwardCap || 0;
+    policy.role = role || undefined;
+    policy.department = department || undefined;
+    policy.position = position || undefined;
+
+    await policy.save();
+    await policy.populate('department', 'name');
+
+    res.json({
+      message: 'Allocation policy updated successfully',
+      policy
+    });
+  } catch (error) {
+    console.error('Update policy error:', error);
+    res.status(500).json({ message: 'Server error during policy update' });
+  }
+});
+
+// @route   DELETE /api/policies/:id
+// @desc    Deactivate allocation policy
+// @access  Private (Admin)
+router.delete('/:id', auth, authorize('admin'), async (req, res) => {
+  try {
+    const policy = await AllocationPolicy.findById(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ message: 'Allocation policy not found' });
+    }
+
+    policy.isActive = false;
+    await policy.save();
+
+    res.json({ message: 'Allocation policy deactivated successfully' });
+  } catch (error) {
+    console.error('Deactivate policy error:', error);
+    res.status(500).json({ message: 'Server error during policy deactivation' });
+  }
+});
+
+// @route   POST /api/policies/generate
+// @desc    Generate leave balances for all active users for an academic year
+// @access  Private (Admin)
+router.post('/generate', auth, authorize('admin'), [
+  body('academicYear').notEmpty().withMessage('Academic year is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    // Fails with 400 for a label that is neither a defined nor a calendar year
+    await getAcademicYearByLabel(req.body.academicYear);
+
+    const summary = await allocateForAllUsers(req.body.academicYear, req.userId);
+
+    res.json({
+      message: `Leave balances generated for ${summary.users} users`,
+      ...summary
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Generate balances error:', error);
+    res.status(500).json({ message: 'Server error during balance generation' });
+  }
+});
+
+module.exports = router;
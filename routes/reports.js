@@ -0,0 +1,143 @@
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const { auth } = require('../middleware/auth');
+const { getCurrentAcademicYear, getAcademicYearByLabel } = require('../utils/academicYear');
+const {
+  getReportScope,
+  getDaysTaken,
+  getUtilisation,
+  getTopAbsentees,
+  getApprovalTurnaround,
+  getRejectionRates
+} = require('../utils/leaveReports');
+
+const router = express.Router();
+
+const reportValidation = [
+  query('academicYear').optional({ checkFalsy: true }).isString(),
+  query('department').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid department ID')
+];
+
+// The academic year (the current one unless given) and the employees the caller may report on
+const resolveReport = async (req) => {
+  const academicYear = req.query.academicYear
+    ? (await getAcademicYearByLabel(req.query.academicYear)).label
+    : (await getCurrentAcademicYear()).label;
+  const employees = await getReportScope(req.user, req.query.department || undefined);
+  return { academicYear, employees };
+};
+
+// @route   GET /api/reports/days-taken
+// @desc    Approved days by department, leave type and month (filter by academicYear, department)
+// @access  Private (scoped by role)
+router.get('/days-taken', auth, reportValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { academicYear, employees } = await resolveReport(req);
+    res.json({ academicYear, ...await getDaysTaken(academicYear, employees) });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Days taken report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/reports/utilisation
+// @desc    Allocated against used days by leave type and department
+// @access  Private (scoped by role)
+router.get('/utilisation', auth, reportValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { academicYear, employees } = await resolveReport(req);
+    res.json({ academicYear, ...await getUtilisation(academicYear, employees) });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Utilisation report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/reports/top-absentees
+// @desc    Employees with the most approved days (filter by leaveType, limit)
+// @access  Private (scoped by role)
+router.get('/top-absentees', auth, [
+  ...reportValidation,
+  query('leaveType').optional({ checkFalsy: true }).isIn(['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other']).withMessage('Invalid leave type'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { academicYear, employees } = await resolveReport(req);
+    const absentees = await getTopAbsentees(academicYear, employees, {
+      leaveType: req.query.leaveType || undefined,
+      limit: Number(req.query.limit) || 10
+    });
+    res.json({ academicYear, absentees });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Top absentees report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/reports/turnaround
+// @desc    Approval turnaround times by stage and from submission to decision
+// @access  Private (scoped by role)
+router.get('/turnaround', auth, reportValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { academicYear, employees } = await resolveReport(req);
+    res.json({ academicYear, ...await getApprovalTurnaround(academicYear, employees) });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Turnaround report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/reports/rejection-rates
+// @desc    Share of decided requests rejected, overall, by leave type and by department
+// @access  Private (scoped by role)
+router.get('/rejection-rates', auth, reportValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { academicYear, employees } = await resolveReport(req);
+    res.json({ academicYear, ...await getRejectionRates(academicYear, employees) });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Rejection rates report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
@@ -3,7 +3,10 @@ const { body, validationResult } = require('express-validator');
 const User = require('../models/User');
 const Department = require('../models/Department');
 const { auth, authorize } = require('../middleware/auth');
+const { uploadImportFile } = require('../middleware/upload');
+const { rerouteApprovals } = require('../utils/approvalWorkflow');
 const { sendWelcomeEmail } = require('../utils/emailService');
+const { importUsers } = require('../utils/userImport');
 
 const router = express.Router();
 
@@ -40,6 +43,40 @@ router.get('/', auth, authorize('admin', 'manager', 'coordinator'), async (req,
   }
 });
 
+// @route   POST /api/users/import
+// @desc    Create or update users from a CSV file, keyed by employee ID. Checks every row and
+//          reports per-row errors; nothing is written unless dryRun is false and every row is valid
+// @access  Private (Admin)
+router.post('/import', auth, authorize('admin'), uploadImportFile, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'Upload a CSV file in the "file" field' });
+    }
+
+    const result = await importUsers(req.file.buffer.toString('utf8'), {
+      dryRun: req.body.dryRun !== 'false',
+      sendWelcome: req.body.sendWelcome === 'true'
+    });
+
+    if (!result.dryRun && !result.valid) {
+      return res.status(400).json({ message: 'Fix the invalid rows before importing', ...result });
+    }
+
+    res.json({
+      message: result.imported
+        ? `Imported ${result.created} new and ${result.updated} updated users`
+        : 'Checked import file; nothing was saved',
+      ...result
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Import users error:', error);
+    res.status(500).json({ message: 'Server error during user import' });
+  }
+});
+
 // @route   GET /api/users/:id
 // @desc    Get user by ID
 // @access  Private
@@ -81,7 +118,7 @@ router.put('/:id', auth, authorize('admin', 'manager'), [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, email, role, department, manager, phone, position, isActive } = req.body;
+    const { name, email, role, department, manager, phone, position, isActive, joiningDate } = req.body;
     
     const user = await User.findById(req.params.id);
     if (!user) {
@@ -102,6 +139,7 @@ router.put('/:id', auth, authorize('admin', 'manager'), [
     if (phone) updateData.phone = phone;
     if (position) updateData.position = position;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (joiningDate) updateData.joiningDate = joiningDate;
 
     const updatedUser = await User.findByIdAndUpdate(
       req.params.id,
@@ -109,6 +147,13 @@ router.put('/:id', auth, authorize('admin', 'manager'), [
       { new: true, runValidators: true }
     ).populate('department', 'name').populate('manager', 'name email');
 
+    // Pending approvals follow a change of manager or department
+    const managerChanged = manager !== undefined && String(manager || '') !== String(user.manager || '');
+    const departmentChanged = department && String(department) !== String(user.department);
+    if (managerChanged || departmentChanged) {
+      await rerouteApprovals(updatedUser);
+    }
+
     res.json({
       message: 'User updated successfully',
       user: updatedUser
@@ -0,0 +1,141 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const ApprovalWorkflow = require('../models/ApprovalWorkflow');
+const Department = require('../models/Department');
+const { auth, authorize } = require('../middleware/auth');
+const { DEFAULT_STEPS } = require('../utils/approvalWorkflow');
+
+const router = express.Router();
+
+const workflowValidation = [
+  body('name').notEmpty().withMessage('Workflow name is required'),
+  body('leaveType').optional({ checkFalsy: true }).isIn(['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other']).withMessage('Invalid leave type'),
+  body('department').optional({ checkFalsy: true }).isMongoId().withMessage('Invalid department ID'),
+  body('maxDays').optional({ checkFalsy: true }).isFloat({ min: 0 }).withMessage('Day limit must be zero or more'),
+  body('steps').isArray({ min: 1 }).withMessage('At least one approval step is required'),
+  body('steps.*.role').isIn(['manager', 'coordinator', 'admin']).withMessage('Invalid approver role')
+];
+
+// Empty strings from the form mean "no day limit"
+const parseMaxDays = (maxDays) => (maxDays === '' || maxDays == null ? undefined : Number(maxDays));
+
+// @route   GET /api/workflows
+// @desc    Get all approval workflows
+// @access  Private (Admin)
+router.get('/', auth, authorize('admin'), async (req, res) => {
+  try {
+    const workflows = await ApprovalWorkflow.find({ isActive: true })
+      .populate('department', 'name')
+      .sort({ leaveType: 1, name: 1 });
+
+    res.json({ workflows, defaultSteps: DEFAULT_STEPS });
+  } catch (error) {
+    console.error('Get workflows error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/workflows
+// @desc    Create approval workflow
+// @access  Private (Admin)
+router.post('/', auth, authorize('admin'), workflowValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, leaveType, department, maxDays, steps } = req.body;
+
+    if (department) {
+      const departmentExists = await Department.findById(department);
+      if (!departmentExists) {
+        return res.status(400).json({ message: 'Department not found' });
+      }
+    }
+
+    const workflow = new ApprovalWorkflow({
+      name,
+      leaveType: leaveType || undefined,
+      department: department || undefined,
+      maxDays: parseMaxDays(maxDays),
+      steps: steps.map(({ role }) => ({ role }))
+    });
+
+    await workflow.save();
+    await workflow.populate('department', 'name');
+
+    res.status(201).json({
+      message: 'Approval workflow created successfully',
+      workflow
+    });
+  } catch (error) {
+    console.error('Create workflow error:', error);
+    res.status(500).json({ message: 'Server error during workflow creation' });
+  }
+});
+
+// @route   PUT /api/workflows/:id
+// @desc    Update approval workflow; requests already submitted keep their steps
+// @access  Private (Admin)
+router.put('/:id', auth, authorize('admin'), workflowValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const workflow = await ApprovalWorkflow.findById(req.params.id);
+    if (!workflow) {
+      return res.status(404).json({ message: 'Approval workflow not found' });
+    }
+
+    const { name, leaveType, department, maxDays, steps } = req.body;
+
+    if (department) {
+      const departmentExists = await Department.findById(department);
+      if (!departmentExists) {
+        return res.status(400).json({ message: 'Department not found' });
+      }
+    }
+
+    workflow.name = name;
+    workflow.leaveType = leaveType || undefined;
+    workflow.department = department || undefined;
+    workflow.maxDays = parseMaxDays(maxDays);
+    workflow.steps = steps.map(({ role }) => ({ role }));
+
+    await workflow.save();
+    await workflow.populate('department', 'name');
+
+    res.json({
+      message: 'Approval workflow updated successfully',
+      workflow
+    });
+  } catch (error) {
+    console.error('Update workflow error:', error);
+    res.status(500).json({ message: 'Server error during workflow update' });
+  }
+});
+
+// @route   DELETE /api/workflows/:id
+// @desc    Deactivate approval workflow
+// @access  Private (Admin)
+router.delete('/:id', auth, authorize('admin'), async (req, res) => {
+  try {
+    const workflow = await ApprovalWorkflow.findById(req.params.id);
+    if (!workflow) {
+      return res.status(404).json({ message: 'Approval workflow not found' });
+    }
+
+    workflow.isActive = false;
+    await workflow.save();
+
+    res.json({ message: 'Approval workflow deactivated successfully' });
+  } catch (error) {
+    console.error('Deactivate workflow error:', error);
+    res.status(500).json({ message: 'Server error during workflow deactivation' });
+  }
+});
+
+module.exports = router;
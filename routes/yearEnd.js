@@ -0,0 +1,113 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const YearEndClosing = require('../models/YearEndClosing');
+const { auth, authorize } = require('../middleware/auth');
+const { buildCarryForwardPreview, commitYearEnd, expireCarriedForward } = require('../utils/yearEndService');
+
+const router = express.Router();
+
+// @route   GET /api/year-end
+// @desc    Get committed and in-progress year-end closings
+// @access  Private (Admin)
+router.get('/', auth, authorize('admin'), async (req, res) => {
+  try {
+    const closings = await YearEndClosing.find()
+      .select('-items')
+      .populate('committedBy', 'name email')
+      .sort({ fromYear: -1 });
+
+    res.json(closings);
+  } catch (error) {
+    console.error('Get year-end closings error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/year-end/preview
+// @desc    Preview the carry-forward report for closing an academic year
+// @access  Private (Admin)
+router.get('/preview', auth, authorize('admin'), [
+  query('fromYear').notEmpty().withMessage('Academic year to close is required'),
+  query('toYear').notEmpty().withMessage('Next academic year is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { fromYear, toYear } = req.query;
+    const existing = await YearEndClosing.findOne({ fromYear, status: 'committed' });
+
+    const preview = await buildCarryForwardPreview(fromYear, toYear);
+
+    res.json({
+      ...preview,
+      alreadyCommitted: !!existing
+    });
+  } catch (error) {
+    console.error('Year-end preview error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/year-end/commit
+// @desc    Carry unused leave into the next academic year
+// @access  Private (Admin)
+router.post('/commit', auth, authorize('admin'), [
+  body('fromYear').notEmpty().withMessage('Academic year to close is required'),
+  body('toYear').notEmpty().withMessage('Next academic year is required'),
+  body('carryForwardExpiresAt').optional({ checkFalsy: true }).isISO8601().withMessage('Valid expiry date is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { fromYear, toYear, carryForwardExpiresAt } = req.body;
+
+    if (fromYear === toYear) {
+      return res.status(400).json({ message: 'Next academic year must differ from the year being closed' });
+    }
+
+    const { closing, alreadyCommitted } = await commitYearEnd({
+      fromYear,
+      toYear,
+      carryForwardExpiresAt: carryForwardExpiresAt ? new Date(carryForwardExpiresAt) : undefined,
+      actorId: req.userId
+    });
+
+    res.json({
+      message: alreadyCommitted
+        ? `Academic year ${fromYear} was already closed`
+        : `Academic year ${fromYear} closed successfully`,
+      closing
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Year-end commit error:', error);
+    res.status(500).json({ message: 'Server error during year-end close' });
+  }
+});
+
+// @route   POST /api/year-end/expire
+// @desc    Expire carried-forward days past their expiry date now
+// @access  Private (Admin)
+router.post('/expire', auth, authorize('admin'), async (req, res) => {
+  try {
+    const expired = await expireCarriedForward(new Date());
+
+    res.json({
+      message: `Expired carried-forward days on ${expired} balances`,
+      expired
+    });
+  } catch (error) {
+    console.error('Carry-forward expiry error:', error);
+    res.status(500).json({ message: 'Server error during carry-forward expiry' });
+  }
+});
+
+module.exports = router;
@@ -9,6 +9,12 @@ const MongoDBStore = require('connect-mongodb-session')(session);
 // Load environment variables
 dotenv.config();
 
+const { scheduleJob, runAllJobs } = require('./utils/scheduler');
+const { expireCarriedForward } = require('./utils/yearEndService');
+const { runAccruals } = require('./utils/allocationService');
+const { escalateStaleApprovals } = require('./utils/escalationService');
+const { migrateLegacyApprovals, assignPendingApprovers } = require('./utils/approvalWorkflow');
+
 const app = express();
 
 // Session store
@@ -56,18 +62,56 @@ app.use('/api/leave', leaveRouter);
 const departmentRouter  = require("./routes/departments.js");
 app.use('/api/departments', departmentRouter);
 
+const policyRouter = require("./routes/policies.js");
+app.use('/api/policies', policyRouter);
+
+const yearEndRouter = require("./routes/yearEnd.js");
+app.use('/api/year-end', yearEndRouter);
+
+const workflowRouter = require("./routes/workflows.js");
+app.use('/api/workflows', workflowRouter);
+
+const holidayRouter = require("./routes/holidays.js");
+app.use('/api/holidays', holidayRouter);
+
+const academicYearRouter = require("./routes/academicYears.js");
+app.use('/api/academic-years', academicYearRouter);
+
+const delegationRouter = require("./routes/delegations.js");
+app.use('/api/delegations', delegationRouter);
+
+const calendarRouter = require("./routes/calendar.js");
+app.use('/api/calendar', calendarRouter);
+
+const reportRouter = require("./routes/reports.js");
+app.use('/api/reports', reportRouter);
+
 // Error handling middleware
 app.use((err, req, res, next) => {
   console.error(err.stack);
   res.status(500).json({ message: 'Something went wrong!' });
 });
 
+// Scheduled jobs
+scheduleJob('carry-forward-expiry', 60, () => expireCarriedForward(new Date()));
+scheduleJob('leave-accrual', 24 * 60, () => runAccruals(new Date()));
+scheduleJob('approval-escalation', 60, () => escalateStaleApprovals(new Date()));
+
 // Connect to MongoDB
 mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/leave-approval-system', {
   useNewUrlParser: true,
   useUnifiedTopology: true,
 })
-.then(() => console.log('MongoDB connected successfully'))
+.then(() => {
+  console.log('MongoDB connected successfully');
+  migrateLegacyApprovals()
+    .then(({ modifiedCount }) => {
+      if (modifiedCount) console.log(`Migrated ${modifiedCount} leave requests to approval steps`);
+      return assignPendingApprovers();
+    })
+    .catch(err => console.error('Approval migration error:', err));
+  runAllJobs();
+})
 .catch(err => console.error('MongoDB connection error:', err));
 
 const PORT = process.env.PORT || 5000;
@@ -0,0 +1,98 @@
+const AcademicYear = require('../models/AcademicYear');
+const { startOfDay, calculateLeaveDuration } = require('./workingDays');
+const { httpError } = require('./httpError');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Without a defined academic year, a date falls in its calendar year (the old behaviour)
+const calendarYear = (year) => ({
+  label: String(year),
+  startDate: new Date(Date.UTC(Number(year), 0, 1)),
+  endDate: new Date(Date.UTC(Number(year), 11, 31))
+});
+
+// The academic year a date falls in
+const resolveAcademicYear = async (date = new Date()) => {
+  const day = startOfDay(date);
+  const academicYear = await AcademicYear.findOne({
+    isActive: true,
+    startDate: { $lte: day },
+    endDate: { $gte: day }
+  });
+  return academicYear || calendarYear(day.getUTCFullYear());
+};
+
+const getCurrentAcademicYear = () => resolveAcademicYear(new Date());
+
+// Look a year up by its label, falling back to a calendar year for labels like "2024"
+const getAcademicYearByLabel = async (label) => {
+  const academicYear = await AcademicYear.findOne({ label, isActive: true });
+  if (academicYear) return academicYear;
+  if (/^\d{4}$/.test(label)) return calendarYear(label);
+
+  throw httpError(400, `Academic year ${label} is not defined`);
+};
+
+// Start (inclusive) and end (exclusive) instants of an academic year
+const getAcademicYearBounds = async (label) => {
+  const { startDate, endDate } = await getAcademicYearByLabel(label);
+  return {
+    start: startOfDay(startDate),
+    end: new Date(startOfDay(endDate).getTime() + DAY_MS)
+  };
+};
+
+// Cut a date range at academic year boundaries, e.g. 28 June - 3 July in a July-June
+// year becomes [28-30 June in 2024-25, 1-3 July in 2025-26]
+const splitByAcademicYear = async (startDate, endDate) => {
+  const end = startOfDay(endDate);
+  const segments = [];
+
+  let cursor = startOfDay(startDate);
+  while (cursor <= end) {
+    const academicYear = await resolveAcademicYear(cursor);
+    const yearEnd = startOfDay(academicYear.endDate);
+    let segmentEnd = yearEnd < end ? yearEnd : end;
+
+    // A stretch not covered by a defined year stops where the next defined year begins
+    const nextYear = await AcademicYear.findOne({
+      isActive: true,
+      startDate: { $gt: cursor, $lte: segmentEnd }
+    }).sort({ startDate: 1 });
+    if (nextYear) {
+      segmentEnd = new Date(startOfDay(nextYear.startDate).getTime() - DAY_MS);
+    }
+
+    segments.push({ academicYear: academicYear.label, startDate: cursor, endDate: segmentEnd });
+    cursor = new Date(segmentEnd.getTime() + DAY_MS);
+  }
+
+  return segments;
+};
+
+// Days a leave request charges to each academic year it touches
+const allocateLeaveToYears = async ({ startDate, endDate, departmentId, durationType, hours }) => {
+  const allocations = [];
+  for (const segment of await splitByAcademicYear(startDate, endDate)) {
+    const { totalDays } = await calculateLeaveDuration({
+      startDate: segment.startDate,
+      endDate: segment.endDate,
+      departmentId,
+      durationType,
+      hours
+    });
+    if (totalDays > 0) {
+      allocations.push({ academicYear: segment.academicYear, days: totalDays });
+    }
+  }
+  return allocations;
+};
+
+module.exports = {
+  resolveAcademicYear,
+  getCurrentAcademicYear,
+  getAcademicYearByLabel,
+  getAcademicYearBounds,
+  splitByAcademicYear,
+  allocateLeaveToYears
+};
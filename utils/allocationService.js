@@ -0,0 +1,146 @@
+const AllocationPolicy = require('../models/AllocationPolicy');
+const LeaveBalance = require('../models/LeaveBalance');
+const LeaveLedgerEntry = require('../models/LeaveLedgerEntry');
+const User = require('../models/User');
+const { roundDays, postLedgerEntry } = require('./leaveLedger');
+const { resolveAcademicYear, getAcademicYearBounds } = require('./academicYear');
+const { idOf } = require('./ids');
+
+// A policy matches when every filter it sets agrees with the user
+const policyMatches = (policy, user) => {
+  if (policy.role && policy.role !== user.role) return false;
+  if (policy.department && String(policy.department) !== String(idOf(user.department))) return false;
+  if (policy.position && (user.position || '').toLowerCase() !== policy.position.toLowerCase()) return false;
+  return true;
+};
+
+const specificity = (policy) => ['role', 'department', 'position'].filter((field) => policy[field]).length;
+
+// Pick the most specific matching policy per leave type, newest first on a tie
+const resolvePolicies = (user, policies) => {
+  const resolved = {};
+
+  policies.filter((policy) => policyMatches(policy, user)).forEach((policy) => {
+    const current = resolved[policy.leaveType];
+    if (!current ||
+        specificity(policy) > specificity(current) ||
+        (specificity(policy) === specificity(current) && policy.updatedAt > current.updatedAt)) {
+      resolved[policy.leaveType] = policy;
+    }
+  });
+
+  return resolved;
+};
+
+const PERIOD_MONTHS = { monthly: 1, quarterly: 3 };
+
+// Days accrued by `asOf` under an accruing policy over an academic year's `bounds`. Each period
+// is credited once it has been worked; the period someone joins in is pro-rated by the days
+// they were employed.
+const calculateAccruedDays = (policy, user, bounds, asOf) => {
+  const { start, end } = bounds;
+  const periodMonths = PERIOD_MONTHS[policy.accrualFrequency];
+  const perPeriod = policy.days / (12 / periodMonths);
+  const joined = user.joiningDate || user.createdAt || start;
+
+  let accrued = 0;
+  for (let month = 0; month < 12; month += periodMonths) {
+    const periodStart = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month, 1));
+    const periodEnd = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month + periodMonths, 1));
+
+    if (periodEnd > asOf || periodEnd > end) break;
+    if (periodEnd <= joined) continue;
+
+    const workedFrom = joined > periodStart ? joined : periodStart;
+    accrued += perPeriod * (periodEnd - workedFrom) / (periodEnd - periodStart);
+  }
+
+  return roundDays(accrued);
+};
+
+// Bring one employee's policy allocations for a year in line with the policies.
+// Only ledger entries posted by a policy are compared, so manual adjustments are left alone
+// and running it twice posts nothing the second time.
+const allocateForUser = async (user, academicYear, actorId, policies, options = {}) => {
+  const activePolicies = policies || await AllocationPolicy.find({ isActive: true });
+  const resolved = resolvePolicies(user, activePolicies);
+  const asOf = options.asOf || new Date();
+  const posted = [];
+  let bounds;
+
+  for (const leaveType of Object.keys(resolved)) {
+    const policy = resolved[leaveType];
+    const accrues = policy.accrualFrequency && policy.accrualFrequency !== 'annual';
+    if (options.accrualOnly && !accrues) continue;
+
+    const key = { employee: user._id, academicYear, leaveType };
+
+    // Keep the balance's accrual settings in step with the policy
+    const settings = {
+      accrualFrequency: policy.accrualFrequency || 'annual',
+      borrowLimit: accrues ? policy.maxBorrowDays : 0
+    };
+    if (accrues) settings.accruedThrough = asOf;
+    await LeaveBalance.updateOne(key, { $set: settings }, { upsert: true, setDefaultsOnInsert: true });
+
+    if (accrues && !bounds) bounds = await getAcademicYearBounds(academicYear);
+    const target = accrues ? calculateAccruedDays(policy, user, bounds, asOf) : policy.days;
+    const policyEntries = await LeaveLedgerEntry.find({ ...key, allocationPolicy: { $exists: true } });
+    const allocated = roundDays(policyEntries.reduce((sum, entry) => sum + entry.days, 0));
+    const difference = roundDays(target - allocated);
+
+    if (difference === 0) continue;
+
+    let description = `Allocation changed to ${policy.days} days (${policy.name})`;
+    if (accrues) {
+      description = `Accrued to ${asOf.toDateString()}: ${target} days (${policy.name})`;
+    } else if (allocated === 0) {
+      description = `Annual allocation (${policy.name})`;
+    }
+
+    posted.push(await postLedgerEntry({
+      ...key,
+      entryType: difference > 0 && (allocated === 0 || accrues) ? 'allocation' : 'adjustment',
+      days: difference,
+      allocationPolicy: policy._id,
+      description,
+      createdBy: actorId
+    }));
+  }
+
+  return posted;
+};
+
+// Generate balances for every active user for an academic year
+const allocateForAllUsers = async (academicYear, actorId, options = {}) => {
+  const policies = await AllocationPolicy.find({ isActive: true });
+  const summary = { users: 0, entries: 0, errors: [] };
+
+  const cursor = User.find({ isActive: true }).select('-password').cursor();
+  for (let user = await cursor.next(); user != null; user = await cursor.next()) {
+    try {
+      const posted = await allocateForUser(user, academicYear, actorId, policies, options);
+      summary.users += 1;
+      summary.entries += posted.length;
+    } catch (error) {
+      console.error(`Allocation error for ${user.employeeId}:`, error);
+      summary.errors.push({ employeeId: user.employeeId, message: error.message });
+    }
+  }
+
+  return summary;
+};
+
+// Scheduled job: top up every accruing balance for the current academic year
+const runAccruals = async (asOf = new Date()) => {
+  const { label } = await resolveAcademicYear(asOf);
+  return allocateForAllUsers(label, undefined, { accrualOnly: true, asOf });
+};
+
+module.exports = {
+  resolvePolicies,
+  calculateAccruedDays,
+  runAccruals,
+  allocateForUser,
+  allocateForAllUsers
+};
@@ -0,0 +1,314 @@
+const mongoose = require('mongoose');
+const ApprovalWorkflow = require('../models/ApprovalWorkflow');
+const LeaveRequest = require('../models/LeaveRequest');
+const Department = require('../models/Department');
+const User = require('../models/User');
+const { sendEmailNotification } = require('./emailService');
+const { getActiveDelegate, getActiveDelegators } = require('./delegation');
+const { idOf } = require('./ids');
+const { httpError } = require('./httpError');
+
+// Used when no workflow matches a request
+const DEFAULT_STEPS = ['manager', 'coordinator'];
+
+// A workflow matches when every filter it sets agrees with the request
+const workflowMatches = (workflow, { leaveType, totalDays, department }) => {
+  if (workflow.leaveType && workflow.leaveType !== leaveType) return false;
+  if (workflow.department && String(workflow.department) !== String(idOf(department))) return false;
+  if (workflow.maxDays != null && totalDays > workflow.maxDays) return false;
+  return true;
+};
+
+const specificity = (workflow) => ['leaveType', 'department'].filter((field) => workflow[field]).length +
+  (workflow.maxDays != null ? 1 : 0);
+
+// Pick the most specific matching workflow, the tightest day limit on a tie, then the newest
+const resolveWorkflow = async (request) => {
+  const workflows = await ApprovalWorkflow.find({ isActive: true });
+
+  let resolved = null;
+  workflows.filter((workflow) => workflowMatches(workflow, request)).forEach((workflow) => {
+    if (!resolved || specificity(workflow) > specificity(resolved)) {
+      resolved = workflow;
+    } else if (specificity(workflow) === specificity(resolved)) {
+      const tighter = workflow.maxDays != null && (resolved.maxDays == null || workflow.maxDays < resolved.maxDays);
+      const sameLimit = workflow.maxDays === resolved.maxDays;
+      if (tighter || (sameLimit && workflow.updatedAt > resolved.updatedAt)) {
+        resolved = workflow;
+      }
+    }
+  });
+
+  return resolved;
+};
+
+// Who decides a step: the requester's manager, their department's coordinator, or for
+// admin steps any admin (left unassigned). Nobody approves their own leave, so a stage that
+// would land on the requester (a coordinator's own request, say) goes to their manager
+// instead, or failing that to another admin.
+const resolveApprover = async (role, employee) => {
+  let approver;
+  if (role === 'manager') {
+    approver = employee.manager ? idOf(employee.manager) : undefined;
+  } else if (role === 'coordinator') {
+    const department = await Department.findById(idOf(employee.department));
+    approver = department && department.coordinator ? department.coordinator : undefined;
+  }
+  if (!approver || String(approver) !== String(employee._id)) return approver;
+
+  if (employee.manager && String(idOf(employee.manager)) !== String(employee._id)) {
+    return idOf(employee.manager);
+  }
+  const admin = await User.findOne({ role: 'admin', isActive: true, _id: { $ne: employee._id } }).sort({ createdAt: 1 });
+  return admin ? admin._id : undefined;
+};
+
+// The approval chain a new request starts with, routed to the employee's own approvers
+const buildApprovalSteps = async (workflow, employee) => {
+  const roles = workflow ? workflow.steps.map((step) => step.role) : DEFAULT_STEPS;
+
+  const steps = [];
+  for (const role of roles) {
+    steps.push({ role, assignedTo: await resolveApprover(role, employee), status: 'pending' });
+  }
+  // Stages are decided in order, so only the first is open
+  steps[0].openedAt = new Date();
+  return steps;
+};
+
+// The open stage: the first step still awaiting a decision
+const getCurrentStep = (leaveRequest) => {
+  return leaveRequest.approvalSteps.find((step) => step.status === 'pending');
+};
+
+// Approver of the open stage, as a query expression over a request document
+const CURRENT_APPROVER_EXPR = {
+  $arrayElemAt: ['$approvalSteps.assignedTo', { $indexOfArray: ['$approvalSteps.status', 'pending'] }]
+};
+
+// Is this user the approver a step is waiting on?
+const isAssignedApprover = (step, user) => {
+  if (step.assignedTo) return String(idOf(step.assignedTo)) === String(user._id);
+  return step.role === 'admin' && user.role === 'admin';
+};
+
+// The approver a delegate stands in for on this step, if the user is their delegate
+const getDelegatorFor = (step, delegatorIds) => {
+  if (!step.assignedTo) return undefined;
+  const assignee = String(idOf(step.assignedTo));
+  return delegatorIds.some((id) => String(id) === assignee) ? idOf(step.assignedTo) : undefined;
+};
+
+// The stage the user is deciding. Only the open stage can be decided, by its approver or
+// their delegate (delegatorIds: approvers the user currently stands in for); admins must
+// name it explicitly, and deciding a stage that isn't theirs is recorded as an override.
+const getActionableStep = (leaveRequest, user, stepId, delegatorIds = []) => {
+  if (String(idOf(leaveRequest.employee)) === String(user._id)) {
+    throw httpError(403, 'You cannot decide your own leave request');
+  }
+
+  const step = getCurrentStep(leaveRequest);
+  if (!step) {
+    throw httpError(400, 'Leave request has no open approval stage');
+  }
+
+  const assigned = isAssignedApprover(step, user);
+  const onBehalfOf = assigned ? undefined : getDelegatorFor(step, delegatorIds);
+
+  if (user.role === 'admin') {
+    if (!stepId) {
+      throw httpError(400, 'Choose the approval stage to act on');
+    }
+    if (String(step._id) !== String(stepId)) {
+      throw httpError(400, 'Only the open approval stage can be decided');
+    }
+    return { step, onBehalfOf, override: !assigned && !onBehalfOf };
+  }
+
+  if (!assigned && !onBehalfOf) {
+    const laterStage = leaveRequest.approvalSteps.some((other) =>
+      other.status === 'pending' && (isAssignedApprover(other, user) || getDelegatorFor(other, delegatorIds)));
+    throw laterStage
+      ? httpError(400, 'This leave request is waiting for an earlier approval stage')
+      : httpError(403, 'You are not an approver for this leave request');
+  }
+  if (stepId && String(step._id) !== String(stepId)) {
+    throw httpError(400, 'Only the open approval stage can be decided');
+  }
+  return { step, onBehalfOf, override: false };
+};
+
+// Who may see a request and its attachments: the employee, anyone who was or is an approver
+// on it (or is standing in for one), and admins
+const canAccessRequest = async (leaveRequest, user) => {
+  if (user.role === 'admin') return true;
+
+  const userId = String(user._id);
+  if (String(idOf(leaveRequest.employee)) === userId) return true;
+
+  const approvers = [];
+  leaveRequest.approvalSteps.forEach((step) => {
+    approvers.push(step.assignedTo, step.approvedBy, step.onBehalfOf);
+  });
+  (leaveRequest.escalations || []).forEach((escalation) => approvers.push(escalation.from));
+  if (leaveRequest.cancellationRequest) {
+    approvers.push(leaveRequest.cancellationRequest.assignedTo, leaveRequest.cancellationRequest.decidedBy);
+  }
+  const approverIds = approvers.filter(Boolean).map((approver) => String(idOf(approver)));
+  if (approverIds.includes(userId)) return true;
+
+  const delegators = await getActiveDelegators(user._id);
+  return delegators.some((delegator) => approverIds.includes(String(delegator)));
+};
+
+// Overall status implied by the steps: any rejection rejects, all approvals approve
+const getWorkflowStatus = (steps) => {
+  if (steps.some((step) => step.status === 'rejected')) return 'rejected';
+  if (steps.every((step) => step.status === 'approved')) return 'approved';
+  return 'pending';
+};
+
+// Record a decision on a stage and open the next one; returns the newly opened stage, if any
+const recordDecision = (leaveRequest, step, { status, approverId, onBehalfOf, comments, override }) => {
+  step.status = status;
+  step.approvedBy = approverId;
+  step.approvedAt = new Date();
+  step.onBehalfOf = onBehalfOf;
+  step.comments = comments;
+  step.override = override;
+
+  leaveRequest.status = getWorkflowStatus(leaveRequest.approvalSteps);
+  if (leaveRequest.status !== 'pending') return null;
+
+  const next = getCurrentStep(leaveRequest);
+  next.openedAt = new Date();
+  return next;
+};
+
+// Let the approver of a newly opened stage, and anyone currently standing in for them, know
+// it is waiting on them; admin stages without an assignee go to every admin. Reminders and
+// escalations use their own template and extra data. Failures are logged rather than
+// failing the request.
+const notifyApprover = async (leaveRequest, step, template = 'approval_required', extraData = {}) => {
+  try {
+    let approvers = [];
+    if (step.assignedTo) {
+      const delegate = await getActiveDelegate(idOf(step.assignedTo));
+      approvers = await User.find({ _id: { $in: [idOf(step.assignedTo), delegate].filter(Boolean) }, isActive: true });
+    } else if (step.role === 'admin') {
+      approvers = await User.find({ role: 'admin', isActive: true });
+    }
+    const employee = await User.findById(leaveRequest.employee._id || leaveRequest.employee);
+
+    for (const approver of approvers) {
+      await sendEmailNotification({
+        to: approver.email,
+        subject: 'Leave Request Awaiting Your Approval',
+        template,
+        data: {
+          ...extraData,
+          approverName: approver.name,
+          employeeName: employee.name,
+          stage: step.role,
+          leaveType: leaveRequest.leaveType,
+          startDate: leaveRequest.startDate.toDateString(),
+          endDate: leaveRequest.endDate.toDateString(),
+          totalDays: leaveRequest.totalDays,
+          reason: leaveRequest.reason
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Approver notification error:', error);
+  }
+};
+
+// Requests created before workflows stored fixed manager and coordinator sub-documents;
+// turn them into a two-step chain. Steps are built here rather than in an update pipeline so
+// each one is stored with an _id, which approvers send back to decide the step. Requests an
+// earlier version migrated without step ids get theirs now.
+const MIGRATION_BATCH_SIZE = 500;
+
+const migrateLegacyApprovals = async () => {
+  const withId = (step) => ({ ...step, _id: step._id || new mongoose.Types.ObjectId() });
+  const cursor = LeaveRequest.collection.find({
+    $or: [
+      { managerApproval: { $exists: true }, approvalSteps: { $exists: false } },
+      { approvalSteps: { $elemMatch: { _id: { $exists: false } } } }
+    ]
+  });
+
+  let operations = [];
+  let modifiedCount = 0;
+  const flush = async () => {
+    if (operations.length) modifiedCount += (await LeaveRequest.collection.bulkWrite(operations)).modifiedCount;
+    operations = [];
+  };
+
+  for await (const leaveRequest of cursor) {
+    const update = leaveRequest.approvalSteps
+      ? { $set: { approvalSteps: leaveRequest.approvalSteps.map(withId) } }
+      : {
+        $set: {
+          approvalSteps: [
+            withId({ role: 'manager', status: 'pending', ...leaveRequest.managerApproval }),
+            withId({ role: 'coordinator', status: 'pending', ...leaveRequest.coordinatorApproval })
+          ]
+        },
+        $unset: { managerApproval: '', coordinatorApproval: '' }
+      };
+    operations.push({ updateOne: { filter: { _id: leaveRequest._id }, update } });
+    if (operations.length >= MIGRATION_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { modifiedCount };
+};
+
+// Point an employee's pending manager/coordinator steps at their current approvers, e.g.
+// after their manager or their department's coordinator changes
+const rerouteApprovals = async (employee) => {
+  const requests = await LeaveRequest.find({ employee: employee._id, status: 'pending' });
+
+  for (const leaveRequest of requests) {
+    for (const step of leaveRequest.approvalSteps) {
+      if (step.status === 'pending' && step.role !== 'admin') {
+        step.assignedTo = await resolveApprover(step.role, employee);
+      }
+    }
+    await leaveRequest.save();
+  }
+};
+
+// Route pending steps that have no approver yet (e.g. migrated requests)
+const assignPendingApprovers = async () => {
+  const employeeIds = await LeaveRequest.distinct('employee', {
+    status: 'pending',
+    approvalSteps: {
+      $elemMatch: { status: 'pending', role: { $ne: 'admin' }, assignedTo: { $exists: false } }
+    }
+  });
+
+  for (const employeeId of employeeIds) {
+    const employee = await User.findById(employeeId);
+    if (employee) await rerouteApprovals(employee);
+  }
+  return employeeIds.length;
+};
+
+module.exports = {
+  DEFAULT_STEPS,
+  resolveWorkflow,
+  resolveApprover,
+  buildApprovalSteps,
+  CURRENT_APPROVER_EXPR,
+  getCurrentStep,
+  getActionableStep,
+  canAccessRequest,
+  recordDecision,
+  notifyApprover,
+  rerouteApprovals,
+  assignPendingApprovers,
+  getWorkflowStatus,
+  migrateLegacyApprovals
+};
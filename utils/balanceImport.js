@@ -0,0 +1,244 @@
+const BalanceImport = require('../models/BalanceImport');
+const LeaveBalance = require('../models/LeaveBalance');
+const LeaveLedgerEntry = require('../models/LeaveLedgerEntry');
+const User = require('../models/User');
+const { parseCsv } = require('./csv');
+const { getAcademicYearByLabel } = require('./academicYear');
+const { roundDays, postLedgerEntry } = require('./leaveLedger');
+const { httpError } = require('./httpError');
+const { LEAVE_TYPES } = require('./leaveTypes');
+
+const REQUIRED_COLUMNS = { employeeid: 'Employee ID', academicyear: 'Academic Year', leavetype: 'Leave Type', allocated: 'Allocated', used: 'Used' };
+const MAX_IMPORT_ROWS = 5000;
+
+const bucketId = ({ employee, academicYear, leaveType }) => `${employee}:${academicYear}:${leaveType}`;
+
+const parseDays = (value, label, errors) => {
+  const days = Number(value);
+  if (value === '' || value === undefined || !Number.isFinite(days) || days < 0) {
+    errors.push(`${label} must be a number of days, 0 or more`);
+    return null;
+  }
+  return roundDays(days);
+};
+
+// Labels that are defined academic years (or plain calendar years)
+const checkAcademicYears = async (labels) => {
+  const known = new Set();
+  for (const label of new Set(labels)) {
+    try {
+      await getAcademicYearByLabel(label);
+      known.add(label);
+    } catch (error) {
+      if (!error.status) throw error;
+    }
+  }
+  return known;
+};
+
+// Parse and check an opening balance file against the current balances; nothing is written.
+// Each row sets one balance's allocated and used days, creating the balance if needed.
+const validateBalanceImport = async (text) => {
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    throw httpError(400, 'The file has no balance rows');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw httpError(400, `Import at most ${MAX_IMPORT_ROWS} balances at a time`);
+  }
+  const missing = Object.keys(REQUIRED_COLUMNS).filter((column) => !(column in records[0]));
+  if (missing.length) {
+    throw httpError(400, `The file is missing the ${missing.map((column) => `"${REQUIRED_COLUMNS[column]}"`).join(', ')} column(s)`);
+  }
+
+  const employees = await User.find({ employeeId: { $in: records.map((record) => record.employeeid).filter(Boolean) } });
+  const employeesById = new Map(employees.map((employee) => [employee.employeeId, employee]));
+  const academicYears = await checkAcademicYears(records.map((record) => record.academicyear).filter(Boolean));
+
+  const balances = await LeaveBalance.find({
+    employee: { $in: employees.map((employee) => employee._id) },
+    academicYear: { $in: [...academicYears] }
+  });
+  const balancesById = new Map(balances.map((balance) => [bucketId(balance), balance]));
+
+  const seen = new Set();
+  return records.map((record) => {
+    const errors = [];
+    const employee = employeesById.get(record.employeeid);
+    const leaveType = (record.leavetype || '').toLowerCase();
+
+    if (!record.employeeid) errors.push('Employee ID is required');
+    else if (!employee) errors.push(`Employee ${record.employeeid} not found`);
+    if (!academicYears.has(record.academicyear)) errors.push(`Academic year "${record.academicyear}" is not defined`);
+    if (!LEAVE_TYPES.includes(leaveType)) errors.push(`Invalid leave type "${record.leavetype}"`);
+
+    const allocated = parseDays(record.allocated, 'Allocated', errors);
+    const used = parseDays(record.used, 'Used', errors);
+    if (allocated !== null && used !== null && used > allocated) {
+      errors.push('Used days cannot be more than allocated days');
+    }
+
+    const key = employee && { employee: employee._id, academicYear: record.academicyear, leaveType };
+    if (key && seen.has(bucketId(key))) {
+      errors.push('This balance appears more than once in the file');
+    }
+    if (key) seen.add(bucketId(key));
+
+    const current = key && balancesById.get(bucketId(key));
+    const previousAllocated = current ? roundDays(current.totalAllocated) : 0;
+    const previousUsed = current ? roundDays(current.used) : 0;
+    let action = current ? 'update' : 'create';
+    if (current && previousAllocated === allocated && previousUsed === used) action = 'unchanged';
+
+    return {
+      row: record.row,
+      employeeId: record.employeeid,
+      name: employee && employee.name,
+      academicYear: record.academicyear,
+      leaveType,
+      allocated,
+      used,
+      previousAllocated,
+      previousUsed,
+      action,
+      errors,
+      key
+    };
+  });
+};
+
+// Move one balance to the imported figures. Usage is credited back before the allocation
+// changes and charged after it, so the balance never has to go below zero on the way.
+const applyRow = async (row, balanceImport, actorId) => {
+  const usedChange = roundDays(row.used - row.previousUsed);
+  const allocatedChange = roundDays(row.allocated - row.previousAllocated);
+  const entry = { ...row.key, balanceImport: balanceImport._id, createdBy: actorId };
+
+  if (usedChange < 0) {
+    await postLedgerEntry({ ...entry, entryType: 'reversal', days: -usedChange, description: 'Opening balance import: leave used' });
+  }
+  if (allocatedChange !== 0) {
+    await postLedgerEntry({ ...entry, entryType: 'adjustment', days: allocatedChange, description: 'Opening balance import: allocation' });
+  }
+  if (usedChange > 0) {
+    await postLedgerEntry({ ...entry, entryType: 'debit', days: usedChange, description: 'Opening balance import: leave used' });
+  }
+};
+
+// Report for the client, without the internal balance keys
+const summarise = (rows) => ({
+  total: rows.length,
+  created: rows.filter((row) => row.action === 'create' && row.errors.length === 0).length,
+  updated: rows.filter((row) => row.action === 'update' && row.errors.length === 0).length,
+  unchanged: rows.filter((row) => row.action === 'unchanged' && row.errors.length === 0).length,
+  invalid: rows.filter((row) => row.errors.length > 0).length,
+  rows: rows.map(({ key, ...row }) => row)
+});
+
+// Check an opening balance file and, unless it is a dry run, post the ledger entries that
+// bring each balance to its imported figures. A file with any invalid row is not imported.
+const importBalances = async (text, { dryRun = true, filename, actorId } = {}) => {
+  const rows = await validateBalanceImport(text);
+  const valid = rows.every((row) => row.errors.length === 0);
+  const result = { dryRun, valid, imported: !dryRun && valid };
+  if (!result.imported) {
+    return { ...result, ...summarise(rows) };
+  }
+
+  const changed = rows.filter((row) => row.action !== 'unchanged');
+  const balanceImport = await BalanceImport.create({
+    filename,
+    importedBy: actorId,
+    items: changed.map((row) => ({
+      ...row.key,
+      previousAllocated: row.previousAllocated,
+      previousUsed: row.previousUsed,
+      allocated: row.allocated,
+      used: row.used
+    }))
+  });
+
+  for (const row of changed) {
+    await applyRow(row, balanceImport, actorId);
+  }
+  return { ...result, balanceImport: balanceImport._id, ...summarise(rows) };
+};
+
+// Undo an import by posting the opposite of each of its ledger entries. Refused once a later
+// import has set any of the same balances, since undoing this one would then clobber it.
+// Each entry is claimed on the log before its opposite is posted, so a rollback that stopped
+// part way can be run again without undoing anything twice.
+const rollbackBalanceImport = async (balanceImportId, actorId) => {
+  const balanceImport = await BalanceImport.findById(balanceImportId);
+  if (!balanceImport) {
+    throw httpError(404, 'Balance import not found');
+  }
+  if (balanceImport.status === 'rolled_back') {
+    throw httpError(400, 'This import has already been rolled back');
+  }
+
+  const buckets = new Set(balanceImport.items.map(bucketId));
+  const later = await BalanceImport.find({ status: { $ne: 'rolled_back' }, createdAt: { $gt: balanceImport.createdAt } });
+  if (later.some((other) => other.items.some((item) => buckets.has(bucketId(item))))) {
+    throw httpError(409, 'A later import changed some of the same balances; roll that back first');
+  }
+
+  const reversed = new Set(balanceImport.reversedEntries.map(String));
+  const entries = (await LeaveLedgerEntry.find({ balanceImport: balanceImport._id }).sort({ createdAt: -1, _id: -1 }))
+    .filter((entry) => !reversed.has(String(entry._id)));
+
+  // Undoing a credit of used days charges the balance again, which fails if the days have
+  // since been booked; check every such balance before posting anything
+  const undone = {};
+  entries.forEach((entry) => {
+    const id = bucketId(entry);
+    undone[id] = undone[id] || { key: entry, days: 0, charges: false };
+    undone[id].days += entry.entryType === 'debit' ? -entry.days : entry.days;
+    if (entry.entryType === 'reversal') undone[id].charges = true;
+  });
+  for (const { key, days, charges } of Object.values(undone)) {
+    if (!charges) continue;
+    const balance = await LeaveBalance.findOne({ employee: key.employee, academicYear: key.academicYear, leaveType: key.leaveType });
+    const available = balance ? balance.remaining + (balance.borrowLimit || 0) : 0;
+    if (roundDays(available - days) < 0) {
+      const employee = await User.findById(key.employee).select('employeeId');
+      throw httpError(409, `${employee ? employee.employeeId : 'An employee'}'s ${key.leaveType} balance for ${key.academicYear} has since been used; adjust it before rolling back`);
+    }
+  }
+
+  await BalanceImport.updateOne({ _id: balanceImport._id }, { $set: { status: 'rolling_back' } });
+
+  const description = `Rolled back opening balance import of ${balanceImport.createdAt.toDateString()}`;
+  for (const entry of entries) {
+    const claimed = await BalanceImport.updateOne(
+      { _id: balanceImport._id, reversedEntries: { $ne: entry._id } },
+      { $push: { reversedEntries: entry._id } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    const key = { employee: entry.employee, academicYear: entry.academicYear, leaveType: entry.leaveType, createdBy: actorId, description };
+    try {
+      if (entry.entryType === 'adjustment') {
+        await postLedgerEntry({ ...key, entryType: 'adjustment', days: -entry.days });
+      } else if (entry.entryType === 'debit') {
+        await postLedgerEntry({ ...key, entryType: 'reversal', days: entry.days });
+      } else {
+        await postLedgerEntry({ ...key, entryType: 'debit', days: entry.days });
+      }
+    } catch (error) {
+      await BalanceImport.updateOne({ _id: balanceImport._id }, { $pull: { reversedEntries: entry._id } });
+      throw error;
+    }
+  }
+
+  return BalanceImport.findByIdAndUpdate(
+    balanceImport._id,
+    { $set: { status: 'rolled_back', rolledBackBy: actorId, rolledBackAt: new Date() } },
+    { new: true }
+  );
+};
+
+module.exports = {
+  importBalances,
+  rollbackBalanceImport
+};
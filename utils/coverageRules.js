@@ -0,0 +1,72 @@
+const LeaveRequest = require('../models/LeaveRequest');
+const Department = require('../models/Department');
+const User = require('../models/User');
+const { startOfDay, toDateKey, calculateWorkingDays } = require('./workingDays');
+
+// Blackout periods the dates touch that apply to this leave type
+const findBlackoutViolations = (department, { leaveType, startDate, endDate }) => {
+  const start = startOfDay(startDate);
+  const end = startOfDay(endDate);
+
+  return (department.blackoutPeriods || [])
+    .filter((period) => period.startDate <= end && period.endDate >= start)
+    .filter((period) => !period.leaveTypes || period.leaveTypes.length === 0 || period.leaveTypes.includes(leaveType))
+    .map((period) => ({
+      rule: 'blackout',
+      message: `${leaveType} leave cannot be taken during ${period.name} (${toDateKey(period.startDate)} to ${toDateKey(period.endDate)})`
+    }));
+};
+
+// Working days on which the department already has as many colleagues on approved leave
+// as its coverage limit allows
+const findCoverageViolations = async (department, { employeeId, startDate, endDate, excludeIds = [] }) => {
+  const limit = department.maxConcurrentAbsences;
+  if (!limit) return [];
+
+  const colleagues = await User.find({ department: department._id, _id: { $ne: employeeId } }).distinct('_id');
+  const absences = await LeaveRequest.find({
+    employee: { $in: colleagues },
+    status: 'approved',
+    _id: { $nin: excludeIds },
+    startDate: { $lte: startOfDay(endDate) },
+    endDate: { $gte: startOfDay(startDate) }
+  });
+  if (absences.length < limit) return [];
+
+  const { days } = await calculateWorkingDays({ startDate, endDate, departmentId: department._id });
+  const fullDates = days
+    .filter((day) => day.type === 'working')
+    .map((day) => day.date)
+    .filter((date) => {
+      const away = new Set(absences
+        .filter((absence) => toDateKey(absence.startDate) <= date && toDateKey(absence.endDate) >= date)
+        .map((absence) => String(absence.employee)));
+      return away.size >= limit;
+    });
+
+  if (fullDates.length === 0) return [];
+  return [{
+    rule: 'coverage',
+    dates: fullDates,
+    message: `${department.name} already has ${limit} ${limit === 1 ? 'person' : 'people'} on leave on ${fullDates.join(', ')}`
+  }];
+};
+
+// The department rules a request would break if it were taken: blackout periods for its
+// leave type and the limit on how many people may be away at once
+const checkCoverageRules = async ({ employeeId, departmentId, leaveType, startDate, endDate, excludeIds = [] }) => {
+  const department = await Department.findById(departmentId);
+  if (!department) return [];
+
+  return [
+    ...findBlackoutViolations(department, { leaveType, startDate, endDate }),
+    ...await findCoverageViolations(department, { employeeId, startDate, endDate, excludeIds })
+  ];
+};
+
+const describeViolations = (violations) => violations.map((violation) => violation.message).join('; ');
+
+module.exports = {
+  checkCoverageRules,
+  describeViolations
+};
@@ -0,0 +1,68 @@
+// Split CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes and
+// line breaks; a doubled quote is a literal one)
+const parseRows = (text) => {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Header names are matched case-insensitively, ignoring spaces and underscores, so
+// "Employee ID" and "employee_id" both read as `employeeid`
+const normaliseHeader = (header) => header.trim().toLowerCase().replace(/[\s_]/g, '');
+
+// Parse CSV text with a header row into one object per non-blank record, keyed by the
+// normalised header names; `row` is its row number in a spreadsheet, for error reports
+const parseCsv = (text) => {
+  const [header = [], ...rows] = parseRows(String(text).replace(/^\uFEFF/, ''));
+  const keys = header.map(normaliseHeader);
+
+  return rows
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim()))
+    .map(({ cells, row }) => {
+      const record = { row };
+      keys.forEach((key, column) => {
+        if (key) record[key] = (cells[column] || '').trim();
+      });
+      return record;
+    });
+};
+
+module.exports = {
+  normaliseHeader,
+  parseCsv
+};
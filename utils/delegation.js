@@ -0,0 +1,37 @@
+const Delegation = require('../models/Delegation');
+const { startOfDay } = require('./workingDays');
+
+// Delegations covering the given day
+const inEffectOn = (date) => {
+  const day = startOfDay(date);
+  return { isActive: true, startDate: { $lte: day }, endDate: { $gte: day } };
+};
+
+// Approvers whose approvals this user may currently decide on their behalf
+const getActiveDelegators = async (delegateId, date = new Date()) => {
+  const delegations = await Delegation.find({ ...inEffectOn(date), delegate: delegateId });
+  return delegations.map((delegation) => delegation.delegator);
+};
+
+// Who is standing in for an approver today, if anyone
+const getActiveDelegate = async (delegatorId, date = new Date()) => {
+  const delegation = await Delegation.findOne({ ...inEffectOn(date), delegator: delegatorId })
+    .sort({ createdAt: -1 });
+  return delegation ? delegation.delegate : null;
+};
+
+// An approver can have only one delegate for any given day
+const findOverlappingDelegation = (delegatorId, startDate, endDate) => {
+  return Delegation.findOne({
+    isActive: true,
+    delegator: delegatorId,
+    startDate: { $lte: endDate },
+    endDate: { $gte: startDate }
+  });
+};
+
+module.exports = {
+  getActiveDelegators,
+  getActiveDelegate,
+  findOverlappingDelegation
+};
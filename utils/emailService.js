@@ -2,7 +2,7 @@ const nodemailer = require('nodemailer');
 
 // Create transporter
 const createTransporter = () => {
-  return nodemailer.createTransporter({
+  return nodemailer.createTransport({
     host: process.env.EMAIL_HOST || 'smtp.gmail.com',
     port: process.env.EMAIL_PORT || 587,
     secure: false,
@@ -39,6 +39,78 @@ const templates = {
     `
   }),
 
+  approval_required: (data) => ({
+    subject: 'Leave Request Awaiting Your Approval',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Leave Request Awaiting Your Approval</h2>
+        <p>Dear ${data.approverName},</p>
+        <p>A leave request from <strong>${data.employeeName}</strong> is now waiting for your approval as ${data.stage}.</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <h3>Leave Details:</h3>
+          <ul>
+            <li><strong>Employee:</strong> ${data.employeeName}</li>
+            <li><strong>Leave Type:</strong> ${data.leaveType}</li>
+            <li><strong>Start Date:</strong> ${data.startDate}</li>
+            <li><strong>End Date:</strong> ${data.endDate}</li>
+            <li><strong>Total Days:</strong> ${data.totalDays}</li>
+            <li><strong>Reason:</strong> ${data.reason}</li>
+          </ul>
+        </div>
+        <p>Please review and approve/reject this request in the system.</p>
+        <p>Best regards,<br>Leave Management System</p>
+      </div>
+    `
+  }),
+
+  approval_reminder: (data) => ({
+    subject: 'Reminder: Leave Request Awaiting Your Approval',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Leave Request Still Awaiting Your Approval</h2>
+        <p>Dear ${data.approverName},</p>
+        <p>A leave request from <strong>${data.employeeName}</strong> has been waiting for your approval as ${data.stage} for ${data.waitingDays} days.</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <h3>Leave Details:</h3>
+          <ul>
+            <li><strong>Employee:</strong> ${data.employeeName}</li>
+            <li><strong>Leave Type:</strong> ${data.leaveType}</li>
+            <li><strong>Start Date:</strong> ${data.startDate}</li>
+            <li><strong>End Date:</strong> ${data.endDate}</li>
+            <li><strong>Total Days:</strong> ${data.totalDays}</li>
+            <li><strong>Reason:</strong> ${data.reason}</li>
+          </ul>
+        </div>
+        <p>Please review and approve/reject this request in the system.</p>
+        <p>Best regards,<br>Leave Management System</p>
+      </div>
+    `
+  }),
+
+  approval_escalated: (data) => ({
+    subject: 'Escalated Leave Request Awaiting Your Approval',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Escalated Leave Request</h2>
+        <p>Dear ${data.approverName},</p>
+        <p>A leave request from <strong>${data.employeeName}</strong> waited ${data.waitingDays} days for ${data.escalatedFrom} and has been escalated to you for ${data.stage} approval.</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <h3>Leave Details:</h3>
+          <ul>
+            <li><strong>Employee:</strong> ${data.employeeName}</li>
+            <li><strong>Leave Type:</strong> ${data.leaveType}</li>
+            <li><strong>Start Date:</strong> ${data.startDate}</li>
+            <li><strong>End Date:</strong> ${data.endDate}</li>
+            <li><strong>Total Days:</strong> ${data.totalDays}</li>
+            <li><strong>Reason:</strong> ${data.reason}</li>
+          </ul>
+        </div>
+        <p>Please review and approve/reject this request in the system.</p>
+        <p>Best regards,<br>Leave Management System</p>
+      </div>
+    `
+  }),
+
   leave_approval: (data) => ({
     subject: `Leave Request ${data.status.charAt(0).toUpperCase() + data.status.slice(1)}`,
     html: `
@@ -63,6 +135,92 @@ const templates = {
     `
   }),
 
+  cancellation_required: (data) => ({
+    subject: 'Leave Cancellation Awaiting Your Approval',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Leave Cancellation Awaiting Your Approval</h2>
+        <p>Dear ${data.approverName},</p>
+        <p><strong>${data.employeeName}</strong> has asked for ${data.change} of their approved leave.</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <h3>Leave Details:</h3>
+          <ul>
+            <li><strong>Employee:</strong> ${data.employeeName}</li>
+            <li><strong>Leave Type:</strong> ${data.leaveType}</li>
+            <li><strong>Start Date:</strong> ${data.startDate}</li>
+            <li><strong>End Date:</strong> ${data.endDate}</li>
+            <li><strong>Total Days:</strong> ${data.totalDays}</li>
+            <li><strong>Reason:</strong> ${data.reason}</li>
+          </ul>
+        </div>
+        <p>Please review and approve/reject this cancellation in the system.</p>
+        <p>Best regards,<br>Leave Management System</p>
+      </div>
+    `
+  }),
+
+  cancellation_decision: (data) => ({
+    subject: `Leave Cancellation ${data.status === 'approved' ? 'Approved' : 'Rejected'}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: ${data.status === 'approved' ? '#28a745' : '#dc3545'};">
+          Leave Cancellation ${data.status === 'approved' ? 'Approved' : 'Rejected'}
+        </h2>
+        <p>Dear ${data.employeeName},</p>
+        <p>Your request for ${data.change} of your leave has been <strong>${data.status}</strong> by ${data.decidedBy}.</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <h3>Leave Details:</h3>
+          <ul>
+            <li><strong>Leave Type:</strong> ${data.leaveType}</li>
+            <li><strong>Start Date:</strong> ${data.startDate}</li>
+            <li><strong>End Date:</strong> ${data.endDate}</li>
+            ${data.status === 'approved' ? `<li><strong>Days Credited Back:</strong> ${data.cancelledDays}</li>` : ''}
+            ${data.comments ? `<li><strong>Comments:</strong> ${data.comments}</li>` : ''}
+          </ul>
+        </div>
+        <p>Best regards,<br>Leave Management System</p>
+      </div>
+    `
+  }),
+
+  leave_cancelled: (data) => ({
+    subject: 'Approved Leave Cancelled',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Approved Leave Cancelled</h2>
+        <p>Dear ${data.approverName},</p>
+        <p>The ${data.change} of leave you approved for <strong>${data.employeeName}</strong> has been approved by ${data.decidedBy}.</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <h3>Leave Details:</h3>
+          <ul>
+            <li><strong>Employee:</strong> ${data.employeeName}</li>
+            <li><strong>Leave Type:</strong> ${data.leaveType}</li>
+            <li><strong>Start Date:</strong> ${data.startDate}</li>
+            <li><strong>End Date:</strong> ${data.endDate}</li>
+            <li><strong>Days Cancelled:</strong> ${data.cancelledDays}</li>
+          </ul>
+        </div>
+        <p>Best regards,<br>Leave Management System</p>
+      </div>
+    `
+  }),
+
+  leave_comment: (data) => ({
+    subject: data.requestsInformation ? 'Information Requested on Leave Request' : 'New Comment on Leave Request',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">${data.requestsInformation ? 'Information Requested' : 'New Comment'}</h2>
+        <p>Dear ${data.recipientName},</p>
+        <p><strong>${data.authorName}</strong> ${data.requestsInformation ? 'needs more information before deciding' : 'commented on'} the ${data.leaveType} leave from ${data.startDate} to ${data.endDate}:</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <p>${data.body}</p>
+        </div>
+        <p>Please reply in the system${data.requestsInformation ? '; approval is on hold until you do' : ''}.</p>
+        <p>Best regards,<br>Leave Management System</p>
+      </div>
+    `
+  }),
+
   welcome: (data) => ({
     subject: 'Welcome to Leave Management System',
     html: `
@@ -0,0 +1,104 @@
+const LeaveRequest = require('../models/LeaveRequest');
+const Department = require('../models/Department');
+const User = require('../models/User');
+const { getCurrentStep, notifyApprover } = require('./approvalWorkflow');
+const { recordEvent } = require('./leaveHistory');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long the open stage may sit idle before its approver is reminded, and before it is
+// escalated to someone above them
+const APPROVAL_REMINDER_HOURS = Number(process.env.APPROVAL_REMINDER_HOURS) || 48;
+const APPROVAL_ESCALATION_HOURS = Number(process.env.APPROVAL_ESCALATION_HOURS) || 120;
+
+// The approver's own manager, or failing that the requester's department coordinator, or
+// failing both an admin. Never the requester, who can't decide their own leave.
+const findEscalationTarget = async (approverId, leaveRequest) => {
+  const employeeId = String(leaveRequest.employee._id || leaveRequest.employee);
+  const eligible = (user) => user && user.isActive &&
+    String(user._id) !== employeeId && String(user._id) !== String(approverId);
+
+  const approver = await User.findById(approverId);
+  if (approver && approver.manager) {
+    const manager = await User.findById(approver.manager);
+    if (eligible(manager)) return manager;
+  }
+
+  const employee = await User.findById(employeeId);
+  const department = employee && await Department.findById(employee.department);
+  if (department && department.coordinator) {
+    const coordinator = await User.findById(department.coordinator);
+    if (eligible(coordinator)) return coordinator;
+  }
+
+  return User.findOne({ role: 'admin', isActive: true, _id: { $nin: [employeeId, approverId] } }).sort({ createdAt: 1 });
+};
+
+// Remind approvers of stages idle past the reminder SLA and hand stages idle past the
+// escalation SLA to the approver's manager or the department coordinator. Each approver is
+// reminded once; an escalation restarts the clock for the new approver. Time spent waiting
+// on the employee for information doesn't count, and stages on hold are left alone.
+const escalateStaleApprovals = async (now = new Date()) => {
+  const requests = await LeaveRequest.find({ status: 'pending' });
+  let reminded = 0;
+  let escalated = 0;
+
+  for (const leaveRequest of requests) {
+    const step = getCurrentStep(leaveRequest);
+    if (!step) continue;
+    if (leaveRequest.informationRequest && leaveRequest.informationRequest.requestedAt) continue;
+
+    const idleSince = step.escalatedAt || step.openedAt || leaveRequest.createdAt;
+    const idleHours = (now - idleSince) / HOUR_MS - (step.pausedHours || 0);
+    const waitingDays = Math.floor(idleHours / 24);
+
+    if (idleHours >= APPROVAL_ESCALATION_HOURS && step.assignedTo) {
+      const target = await findEscalationTarget(step.assignedTo, leaveRequest);
+      if (target && String(target._id) !== String(step.assignedTo)) {
+        const from = await User.findById(step.assignedTo);
+
+        leaveRequest.escalations.push({
+          step: step._id,
+          role: step.role,
+          from: step.assignedTo,
+          to: target._id,
+          escalatedAt: now
+        });
+        step.assignedTo = target._id;
+        step.escalatedAt = now;
+        step.remindedAt = undefined;
+        step.pausedHours = 0;
+        await leaveRequest.save();
+
+        await recordEvent(leaveRequest, 'escalated', {
+          step,
+          changes: [{ field: `${step.role} approver`, before: from ? from.name : null, after: target.name }],
+          description: `Waited ${waitingDays} days for a decision`
+        });
+
+        await notifyApprover(leaveRequest, step, 'approval_escalated', {
+          waitingDays,
+          escalatedFrom: from ? from.name : 'the previous approver'
+        });
+        escalated += 1;
+        continue;
+      }
+    }
+
+    if (idleHours >= APPROVAL_REMINDER_HOURS && !step.remindedAt) {
+      step.remindedAt = now;
+      await leaveRequest.save();
+
+      await notifyApprover(leaveRequest, step, 'approval_reminder', { waitingDays });
+      reminded += 1;
+    }
+  }
+
+  return { reminded, escalated };
+};
+
+module.exports = {
+  APPROVAL_REMINDER_HOURS,
+  APPROVAL_ESCALATION_HOURS,
+  escalateStaleApprovals
+};
@@ -0,0 +1,12 @@
+// An error carrying the HTTP status the route should answer with, and optionally more fields
+// (such as the clashes behind it) to send alongside the message
+const httpError = (status, message, details) => {
+  const error = new Error(message);
+  error.status = status;
+  if (details) error.details = details;
+  return error;
+};
+
+module.exports = {
+  httpError
+};
@@ -0,0 +1,6 @@
+// The id of a reference, whether or not it has been populated
+const idOf = (value) => (value && value._id ? value._id : value);
+
+module.exports = {
+  idOf
+};
@@ -0,0 +1,54 @@
+const LeaveRequest = require('../models/LeaveRequest');
+const LeaveBalance = require('../models/LeaveBalance');
+const { roundDays, getAvailableDays, getRequestCharges, syncRequestCharges } = require('./leaveLedger');
+const { recordEvent } = require('./leaveHistory');
+const { httpError } = require('./httpError');
+
+// Whether the balances can take the amendment once the original's days are credited back.
+// Checked before anything is posted, so a failed charge never leaves the original superseded.
+const checkAmendmentBalance = async (amendment, original) => {
+  const released = {};
+  getRequestCharges(original).forEach((charge) => {
+    released[`${charge.academicYear}:${charge.leaveType}`] = charge.days;
+  });
+
+  for (const charge of getRequestCharges(amendment)) {
+    const balance = await LeaveBalance.findOne({
+      employee: amendment.employee._id || amendment.employee,
+      academicYear: charge.academicYear,
+      leaveType: charge.leaveType
+    });
+    const available = balance
+      ? roundDays(getAvailableDays(balance) + (released[`${charge.academicYear}:${charge.leaveType}`] || 0))
+      : null;
+    if (balance && available < charge.days) {
+      throw httpError(400, `Insufficient ${charge.leaveType} leave balance for ${charge.academicYear}. Available: ${available} days, Requested: ${charge.days} days`);
+    }
+  }
+};
+
+// Replace the request an approved amendment amends: the original is marked superseded, linked
+// to its replacement and its charges credited back, leaving only the amendment's days charged
+const supersedeOriginal = async (amendment, actorId) => {
+  const original = await LeaveRequest.findById(amendment.amendmentOf);
+  if (!original || original.status !== 'approved') {
+    throw httpError(409, 'The leave request being amended is no longer approved');
+  }
+  await checkAmendmentBalance(amendment, original);
+
+  original.status = 'superseded';
+  original.supersededBy = amendment._id;
+  await syncRequestCharges(original, actorId);
+  await original.save();
+
+  await recordEvent(original, 'superseded', {
+    actor: actorId,
+    changes: [{ field: 'status', before: 'approved', after: 'superseded' }],
+    description: `Replaced by leave request ${amendment._id}`
+  });
+  return original;
+};
+
+module.exports = {
+  supersedeOriginal
+};
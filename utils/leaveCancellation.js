@@ -0,0 +1,174 @@
+const User = require('../models/User');
+const { sendEmailNotification } = require('./emailService');
+const { startOfDay, toDateKey } = require('./workingDays');
+const { allocateLeaveToYears } = require('./academicYear');
+const { roundDays, syncRequestCharges } = require('./leaveLedger');
+const { resolveApprover } = require('./approvalWorkflow');
+const { getActiveDelegate } = require('./delegation');
+const { idOf } = require('./ids');
+const { httpError } = require('./httpError');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Approved leave that hasn't started is cancelled outright. Leave already under way can only
+// be cut short: returnDate is the first day back, and must fall after the first day of leave
+// and no earlier than today. Returns the return date to record, if any.
+const checkCancellation = (leaveRequest, returnDate, now = new Date()) => {
+  const today = startOfDay(now);
+
+  if (startOfDay(leaveRequest.endDate) < today) {
+    throw httpError(400, 'Leave that has already ended cannot be cancelled');
+  }
+  if (startOfDay(leaveRequest.startDate) > today) return undefined;
+
+  if (!returnDate) {
+    throw httpError(400, 'Leave already in progress needs a return date');
+  }
+  const back = startOfDay(returnDate);
+  if (back < today) {
+    throw httpError(400, 'Return date cannot be in the past');
+  }
+  if (back <= startOfDay(leaveRequest.startDate) || back > startOfDay(leaveRequest.endDate)) {
+    throw httpError(400, 'Return date must fall within the leave, after its first day');
+  }
+  return back;
+};
+
+// The employee's manager decides cancellations; without one any admin can
+const getCancellationApprover = (employee) => resolveApprover('manager', employee);
+
+// Carry out an approved cancellation: an early return ends the leave the day before the
+// employee is back, anything else cancels it. The days given up are credited back. The
+// dates are checked again, as the leave may have started or the return date passed since
+// the cancellation was asked for; the employee then has to ask again.
+const applyCancellation = async (leaveRequest, actorId, now = new Date()) => {
+  const cancellation = leaveRequest.cancellationRequest;
+  const previousDays = leaveRequest.totalDays;
+
+  try {
+    checkCancellation(leaveRequest, cancellation.returnDate, now);
+  } catch (error) {
+    if (!error.status) throw error;
+    throw httpError(409, `This cancellation can no longer be approved. ${error.message}`);
+  }
+
+  if (cancellation.returnDate) {
+    const endDate = new Date(startOfDay(cancellation.returnDate).getTime() - DAY_MS);
+    const yearAllocations = await allocateLeaveToYears({
+      startDate: leaveRequest.startDate,
+      endDate,
+      departmentId: leaveRequest.employee.department,
+      durationType: leaveRequest.durationType,
+      hours: leaveRequest.hours
+    });
+    const totalDays = roundDays(yearAllocations.reduce((sum, allocation) => sum + allocation.days, 0));
+
+    if (totalDays > 0) {
+      leaveRequest.endDate = endDate;
+      leaveRequest.totalDays = totalDays;
+      leaveRequest.yearAllocations = yearAllocations;
+      leaveRequest.academicYear = yearAllocations[0].academicYear;
+    } else {
+      leaveRequest.status = 'cancelled';
+    }
+  } else {
+    leaveRequest.status = 'cancelled';
+  }
+
+  cancellation.cancelledDays = leaveRequest.status === 'cancelled'
+    ? previousDays
+    : roundDays(previousDays - leaveRequest.totalDays);
+  await syncRequestCharges(leaveRequest, actorId);
+};
+
+const describeCancellation = (leaveRequest) => {
+  const { returnDate } = leaveRequest.cancellationRequest;
+  return returnDate ? `early return on ${toDateKey(returnDate)}` : 'cancellation';
+};
+
+// Let whoever decides the cancellation, and anyone standing in for them, know it is waiting
+const notifyCancellationApprover = async (leaveRequest) => {
+  try {
+    const assignedTo = idOf(leaveRequest.cancellationRequest.assignedTo);
+    let approvers;
+    if (assignedTo) {
+      const delegate = await getActiveDelegate(assignedTo);
+      approvers = await User.find({ _id: { $in: [assignedTo, delegate].filter(Boolean) }, isActive: true });
+    } else {
+      approvers = await User.find({ role: 'admin', isActive: true });
+    }
+    const employee = await User.findById(idOf(leaveRequest.employee));
+
+    for (const approver of approvers) {
+      await sendEmailNotification({
+        to: approver.email,
+        subject: 'Leave Cancellation Awaiting Your Approval',
+        template: 'cancellation_required',
+        data: {
+          approverName: approver.name,
+          employeeName: employee.name,
+          change: describeCancellation(leaveRequest),
+          leaveType: leaveRequest.leaveType,
+          startDate: leaveRequest.startDate.toDateString(),
+          endDate: leaveRequest.endDate.toDateString(),
+          totalDays: leaveRequest.totalDays,
+          reason: leaveRequest.cancellationRequest.reason
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Cancellation notification error:', error);
+  }
+};
+
+// Tell the employee the outcome and, when it goes ahead, the approvers who signed off the
+// leave that it no longer stands as approved
+const notifyCancellationDecision = async (leaveRequest, decidedBy) => {
+  try {
+    const cancellation = leaveRequest.cancellationRequest;
+    const employee = await User.findById(idOf(leaveRequest.employee));
+    const data = {
+      employeeName: employee.name,
+      change: describeCancellation(leaveRequest),
+      status: cancellation.status,
+      decidedBy: decidedBy.name,
+      comments: cancellation.comments,
+      leaveType: leaveRequest.leaveType,
+      startDate: leaveRequest.startDate.toDateString(),
+      endDate: leaveRequest.endDate.toDateString(),
+      cancelledDays: cancellation.cancelledDays
+    };
+
+    await sendEmailNotification({
+      to: employee.email,
+      subject: `Leave Cancellation ${cancellation.status === 'approved' ? 'Approved' : 'Rejected'}`,
+      template: 'cancellation_decision',
+      data
+    });
+
+    if (cancellation.status !== 'approved') return;
+
+    const approverIds = leaveRequest.approvalSteps
+      .map((step) => idOf(step.approvedBy))
+      .filter((id) => id && String(id) !== String(decidedBy._id));
+    const approvers = await User.find({ _id: { $in: approverIds }, isActive: true });
+    for (const approver of approvers) {
+      await sendEmailNotification({
+        to: approver.email,
+        subject: 'Approved Leave Cancelled',
+        template: 'leave_cancelled',
+        data: { ...data, approverName: approver.name }
+      });
+    }
+  } catch (error) {
+    console.error('Cancellation notification error:', error);
+  }
+};
+
+module.exports = {
+  checkCancellation,
+  getCancellationApprover,
+  applyCancellation,
+  notifyCancellationApprover,
+  notifyCancellationDecision
+};
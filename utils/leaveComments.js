@@ -0,0 +1,133 @@
+const LeaveComment = require('../models/LeaveComment');
+const User = require('../models/User');
+const { sendEmailNotification } = require('./emailService');
+const { getCurrentStep, getActionableStep } = require('./approvalWorkflow');
+const { getActiveDelegate, getActiveDelegators } = require('./delegation');
+const { recordEvent } = require('./leaveHistory');
+const { idOf } = require('./ids');
+const { httpError } = require('./httpError');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const getComments = (leaveRequestId) => {
+  return LeaveComment.find({ leaveRequest: leaveRequestId })
+    .populate('author', 'name email role')
+    .sort({ createdAt: 1 });
+};
+
+// Only whoever can decide the open stage may put it on hold to ask the employee something
+const requestInformation = async (leaveRequest, user) => {
+  if (leaveRequest.status !== 'pending') {
+    throw httpError(400, 'Information can only be requested while the request is pending');
+  }
+  if (leaveRequest.informationRequest && leaveRequest.informationRequest.requestedAt) {
+    throw httpError(400, 'Information has already been requested from the employee');
+  }
+
+  const delegators = await getActiveDelegators(user._id);
+  const { step, onBehalfOf } = getActionableStep(leaveRequest, user, getCurrentStep(leaveRequest)._id, delegators);
+  leaveRequest.informationRequest = { step: step._id, requestedBy: user._id, requestedAt: new Date() };
+  return { step, onBehalfOf };
+};
+
+// The employee's reply lifts the hold; the time spent waiting is kept off the stage's SLA
+const resumeApproval = (leaveRequest, now = new Date()) => {
+  const { step: stepId, requestedAt } = leaveRequest.informationRequest;
+  const step = leaveRequest.approvalSteps.id(stepId);
+  const waited = (now - requestedAt) / HOUR_MS;
+  if (step) step.pausedHours = Math.round(((step.pausedHours || 0) + waited) * 100) / 100;
+  leaveRequest.informationRequest = undefined;
+  return { step, waited };
+};
+
+// The employee, whoever the open stage waits on (and their delegate) and everyone who has
+// taken part in the discussion, apart from the comment's author
+const getRecipients = async (leaveRequest, author) => {
+  const ids = [idOf(leaveRequest.employee)];
+
+  const step = getCurrentStep(leaveRequest);
+  if (step && step.assignedTo) {
+    ids.push(idOf(step.assignedTo), await getActiveDelegate(idOf(step.assignedTo)));
+  }
+  if (leaveRequest.informationRequest && leaveRequest.informationRequest.requestedBy) {
+    ids.push(leaveRequest.informationRequest.requestedBy);
+  }
+  ids.push(...await LeaveComment.distinct('author', { leaveRequest: leaveRequest._id }));
+
+  const unique = [...new Set(ids.filter(Boolean).map(String))].filter((id) => id !== String(author._id));
+  return User.find({ _id: { $in: unique }, isActive: true });
+};
+
+// Failures are logged rather than failing the comment
+const notifyComment = async (leaveRequest, comment, author) => {
+  try {
+    const recipients = await getRecipients(leaveRequest, author);
+    for (const recipient of recipients) {
+      await sendEmailNotification({
+        to: recipient.email,
+        subject: comment.requestsInformation ? 'Information Requested on Leave Request' : 'New Comment on Leave Request',
+        template: 'leave_comment',
+        data: {
+          recipientName: recipient.name,
+          authorName: author.name,
+          body: comment.body,
+          requestsInformation: comment.requestsInformation,
+          leaveType: leaveRequest.leaveType,
+          startDate: leaveRequest.startDate.toDateString(),
+          endDate: leaveRequest.endDate.toDateString()
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Comment notification error:', error);
+  }
+};
+
+// Post a comment, putting the open stage on hold when an approver asks for information and
+// lifting the hold when the employee replies
+const addComment = async (leaveRequest, author, { body, requestsInformation = false }) => {
+  const isEmployee = String(idOf(leaveRequest.employee)) === String(author._id);
+  let event = null;
+
+  if (requestsInformation) {
+    if (isEmployee) {
+      throw httpError(400, 'Only approvers can request information');
+    }
+    const { step, onBehalfOf } = await requestInformation(leaveRequest, author);
+    event = { eventType: 'information_requested', step, onBehalfOf };
+  } else if (isEmployee && leaveRequest.informationRequest && leaveRequest.informationRequest.requestedAt) {
+    const { step, waited } = resumeApproval(leaveRequest);
+    event = {
+      eventType: 'information_provided',
+      step,
+      description: `Approval was on hold for ${Math.round(waited * 10) / 10} hours`
+    };
+  }
+
+  if (event) await leaveRequest.save();
+
+  const comment = await LeaveComment.create({
+    leaveRequest: leaveRequest._id,
+    author: author._id,
+    body,
+    requestsInformation
+  });
+
+  if (event) {
+    await recordEvent(leaveRequest, event.eventType, {
+      actor: author._id,
+      onBehalfOf: event.onBehalfOf,
+      step: event.step,
+      description: event.description || body
+    });
+  }
+
+  await notifyComment(leaveRequest, comment, author);
+  await comment.populate('author', 'name email role');
+  return comment;
+};
+
+module.exports = {
+  getComments,
+  addComment
+};
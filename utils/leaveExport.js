@@ -0,0 +1,162 @@
+const ExcelJS = require('exceljs');
+const LeaveRequest = require('../models/LeaveRequest');
+const { toDateKey, describeDuration } = require('./workingDays');
+
+const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+// Every export has columns for at least the usual two approval stages, so files from
+// different years line up; longer workflows add more
+const MIN_STAGE_COLUMNS = 2;
+
+// Records are read from the database in batches as the file is written
+const BATCH_SIZE = 500;
+
+const nameOf = (user) => (user && user.name ? user.name : '');
+
+// `type` picks how a value is written: date columns hold calendar dates, datetime columns
+// hold timestamps
+const stageColumns = (index) => {
+  const stage = (record) => record.approvalSteps[index] || {};
+  const label = `Stage ${index + 1}`;
+  return [
+    { header: `${label} Role`, value: (record) => stage(record).role },
+    { header: `${label} Status`, value: (record) => stage(record).status },
+    { header: `${label} Approver`, value: (record) => nameOf(stage(record).assignedTo) },
+    { header: `${label} Decided By`, value: (record) => nameOf(stage(record).approvedBy) },
+    { header: `${label} On Behalf Of`, value: (record) => nameOf(stage(record).onBehalfOf) },
+    { header: `${label} Decided At`, type: 'datetime', value: (record) => stage(record).approvedAt },
+    { header: `${label} Comments`, value: (record) => stage(record).comments }
+  ];
+};
+
+const buildColumns = (stageCount) => {
+  const columns = [
+    { header: 'Employee ID', value: (record) => record.employee && record.employee.employeeId },
+    { header: 'Employee', value: (record) => nameOf(record.employee) },
+    { header: 'Email', value: (record) => record.employee && record.employee.email },
+    { header: 'Department', value: (record) => record.employee && nameOf(record.employee.department) },
+    { header: 'Leave Type', value: (record) => record.leaveType },
+    { header: 'Start Date', type: 'date', value: (record) => record.startDate },
+    { header: 'End Date', type: 'date', value: (record) => record.endDate },
+    { header: 'Duration', value: describeDuration },
+    { header: 'Days', type: 'number', value: (record) => record.totalDays },
+    { header: 'Academic Year', value: (record) => record.academicYear },
+    { header: 'Status', value: (record) => record.status },
+    { header: 'Reason', value: (record) => record.reason },
+    { header: 'Applied At', type: 'datetime', value: (record) => record.createdAt }
+  ];
+  for (let index = 0; index < stageCount; index += 1) {
+    columns.push(...stageColumns(index));
+  }
+  return columns;
+};
+
+// Longest approval chain among the records being exported
+const countStages = async (query) => {
+  const [result] = await LeaveRequest.aggregate([
+    { $match: query },
+    { $group: { _id: null, stages: { $max: { $size: '$approvalSteps' } } } }
+  ]);
+  return Math.max(MIN_STAGE_COLUMNS, result ? result.stages : 0);
+};
+
+const formatCsvValue = (value, type) => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) {
+    return type === 'date' ? toDateKey(value) : value.toISOString();
+  }
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (type !== 'number' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (values) => `${values.join(',')}\r\n`;
+
+// Wait for the client to catch up rather than buffering the whole file. Resolves false once
+// the client has gone away, so the export can stop instead of waiting for a drain that
+// will never come.
+const write = (res, chunk) => {
+  if (res.destroyed) return Promise.resolve(false);
+  if (res.write(chunk)) return Promise.resolve(true);
+
+  return new Promise((resolve) => {
+    const settle = (writable) => () => {
+      res.off('drain', onDrain);
+      res.off('close', onClose);
+      res.off('error', onClose);
+      resolve(writable);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+    res.on('drain', onDrain);
+    res.on('close', onClose);
+    res.on('error', onClose);
+  });
+};
+
+const streamCsv = async (res, cursor, columns) => {
+  // Byte order mark so Excel reads the file as UTF-8
+  if (!await write(res, `\uFEFF${toCsvLine(columns.map((column) => formatCsvValue(column.header)))}`)) return;
+  for await (const record of cursor) {
+    if (!await write(res, toCsvLine(columns.map((column) => formatCsvValue(column.value(record), column.type))))) return;
+  }
+  res.end();
+};
+
+const streamXlsx = async (res, cursor, columns) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const worksheet = workbook.addWorksheet('Leave Records', { views: [{ state: 'frozen', ySplit: 1 }] });
+  worksheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: column.type === 'datetime' ? 20 : 16,
+    style: column.type === 'date'
+      ? { numFmt: 'yyyy-mm-dd' }
+      : column.type === 'datetime' ? { numFmt: 'yyyy-mm-dd hh:mm' } : {}
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.getRow(1).commit();
+
+  for await (const record of cursor) {
+    if (res.destroyed) return;
+    worksheet.addRow(columns.map((column) => {
+      const value = column.value(record);
+      return value === undefined || value === null ? '' : value;
+    })).commit();
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+// Write the records matching a query to the response as a CSV or XLSX download, one batch
+// at a time
+const exportLeaveRecords = async (res, query, format, filename) => {
+  const columns = buildColumns(await countStages(query));
+  const cursor = LeaveRequest.find(query)
+    .populate({ path: 'employee', select: 'name email employeeId department', populate: { path: 'department', select: 'name' } })
+    .populate('approvalSteps.approvedBy', 'name')
+    .populate('approvalSteps.assignedTo', 'name')
+    .populate('approvalSteps.onBehalfOf', 'name')
+    .sort({ startDate: -1, _id: 1 })
+    .cursor({ batchSize: BATCH_SIZE });
+
+  res.attachment(`${filename}.${format}`);
+  try {
+    if (format === 'xlsx') {
+      res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      await streamXlsx(res, cursor, columns);
+    } else {
+      res.type('text/csv; charset=utf-8');
+      await streamCsv(res, cursor, columns);
+    }
+  } finally {
+    // Stopping early, when the client goes away or a write fails, leaves the cursor open
+    await cursor.close();
+  }
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  exportLeaveRecords
+};
@@ -0,0 +1,58 @@
+const LeaveEvent = require('../models/LeaveEvent');
+const { idOf } = require('./ids');
+
+// Request fields whose before/after values are kept in the history
+const TRACKED_FIELDS = ['status', 'leaveType', 'startDate', 'endDate', 'durationType', 'halfDayPeriod', 'hours', 'totalDays'];
+
+// Plain copy of the tracked fields, taken before a change so it can be compared afterwards
+const snapshot = (leaveRequest, fields = TRACKED_FIELDS) => {
+  const values = {};
+  fields.forEach((field) => {
+    const value = leaveRequest[field];
+    values[field] = value instanceof Date ? new Date(value) : value;
+  });
+  return values;
+};
+
+const sameValue = (a, b) => {
+  if (a instanceof Date || b instanceof Date) {
+    return a && b && new Date(a).getTime() === new Date(b).getTime();
+  }
+  return String(a) === String(b);
+};
+
+// Fields that differ between two snapshots, as { field, before, after }
+const diffSnapshots = (before, after) => {
+  return Object.keys(after)
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+// Append an event to a request's history
+const recordEvent = (leaveRequest, eventType, { actor, onBehalfOf, step, changes = [], description } = {}) => {
+  return LeaveEvent.create({
+    leaveRequest: idOf(leaveRequest),
+    eventType,
+    actor: idOf(actor),
+    onBehalfOf: idOf(onBehalfOf),
+    step: idOf(step),
+    changes,
+    description
+  });
+};
+
+// A request's history, oldest first
+const getHistory = (leaveRequestId) => {
+  return LeaveEvent.find({ leaveRequest: leaveRequestId })
+    .populate('actor', 'name email')
+    .populate('onBehalfOf', 'name email')
+    .sort({ createdAt: 1, _id: 1 });
+};
+
+module.exports = {
+  TRACKED_FIELDS,
+  snapshot,
+  diffSnapshots,
+  recordEvent,
+  getHistory
+};
@@ -0,0 +1,255 @@
+const LeaveLedgerEntry = require('../models/LeaveLedgerEntry');
+const LeaveBalance = require('../models/LeaveBalance');
+const { httpError } = require('./httpError');
+
+// Leave can be booked in fractions of a day (half days, hours), so keep amounts to 3 decimals
+const roundDays = (days) => Math.round(days * 1000) / 1000;
+
+// How each entry type moves the balance document
+const balanceEffect = (entryType, days) => {
+  switch (entryType) {
+    case 'allocation':
+    case 'adjustment':
+      return { totalAllocated: days, used: 0, remaining: days, carriedForward: 0 };
+    case 'carry_forward':
+      return { totalAllocated: days, used: 0, remaining: days, carriedForward: days };
+    case 'expiry':
+      return { totalAllocated: -days, used: 0, remaining: -days, carriedForward: -days };
+    case 'debit':
+      return { totalAllocated: 0, used: days, remaining: -days, carriedForward: 0 };
+    case 'reversal':
+      return { totalAllocated: 0, used: -days, remaining: days, carriedForward: 0 };
+    default:
+      throw new Error(`Unknown ledger entry type '${entryType}'`);
+  }
+};
+
+// Days that can still be booked, including borrowing against future accrual
+const getAvailableDays = (balance) => balance.remaining + (balance.borrowLimit || 0);
+
+const balanceKey = ({ employee, academicYear, leaveType }) => ({ employee, academicYear, leaveType });
+
+const BALANCE_FIELDS = ['totalAllocated', 'used', 'remaining', 'carriedForward'];
+
+// $inc on fractional days can leave float noise (19.6 - 0.4 = 19.200000000000003), so snap
+// the fields back to whole thousandths unless someone else has moved the balance meanwhile
+const normaliseBalance = async (balance) => {
+  const rounded = {};
+  BALANCE_FIELDS.forEach((field) => {
+    if (typeof balance[field] === 'number' && balance[field] !== roundDays(balance[field])) {
+      rounded[field] = roundDays(balance[field]);
+    }
+  });
+  if (!Object.keys(rounded).length) return balance;
+
+  const unchanged = { _id: balance._id };
+  Object.keys(rounded).forEach((field) => { unchanged[field] = balance[field]; });
+  const updated = await LeaveBalance.findOneAndUpdate(unchanged, { $set: rounded }, { new: true });
+  return updated || balance;
+};
+
+const applyToBalance = async (key, effect) => {
+  const balance = await LeaveBalance.findOneAndUpdate(
+    balanceKey(key),
+    { $inc: effect },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return normaliseBalance(balance);
+};
+
+// Debit the balance only if enough remains (including any borrowing allowance); a missing
+// balance document means the leave type is not tracked for this employee, so the debit creates it.
+const applyDebit = async (key, days) => {
+  const effect = balanceEffect('debit', days);
+  const balance = await LeaveBalance.findOneAndUpdate(
+    {
+      ...balanceKey(key),
+      $expr: { $gte: [{ $round: [{ $add: ['$remaining', { $ifNull: ['$borrowLimit', 0] }] }, 3] }, days] }
+    },
+    { $inc: effect },
+    { new: true }
+  );
+  if (balance) return normaliseBalance(balance);
+
+  const current = await LeaveBalance.findOne(balanceKey(key));
+  if (current) {
+    throw httpError(400, `Insufficient ${key.leaveType} leave balance for ${key.academicYear}. Available: ${getAvailableDays(current)} days, Requested: ${days} days`);
+  }
+
+  return applyToBalance(key, effect);
+};
+
+// Record a ledger entry and move the matching LeaveBalance with it
+const postLedgerEntry = async ({ employee, academicYear, leaveType, entryType, days: amount, leaveRequest, allocationPolicy, yearEndClosing, balanceImport, sequence, description, createdBy }) => {
+  const key = { employee, academicYear, leaveType };
+  const days = roundDays(amount);
+  const effect = balanceEffect(entryType, days);
+
+  if (entryType === 'debit') {
+    await applyDebit(key, days);
+  } else {
+    await applyToBalance(key, effect);
+  }
+
+  try {
+    return await LeaveLedgerEntry.create({
+      employee,
+      academicYear,
+      leaveType,
+      entryType,
+      days,
+      leaveRequest,
+      allocationPolicy,
+      yearEndClosing,
+      balanceImport,
+      sequence,
+      description,
+      createdBy
+    });
+  } catch (error) {
+    // Undo the balance movement so balance and ledger stay in step
+    const undo = {};
+    Object.keys(effect).forEach((field) => { undo[field] = -effect[field]; });
+    await LeaveBalance.updateOne(balanceKey(key), { $inc: undo });
+
+    // Duplicate key: a concurrent request already posted this entry
+    if (error.code === 11000) {
+      throw httpError(409, 'Leave balance was updated by someone else, please try again');
+    }
+    throw error;
+  }
+};
+
+// Days a leave request should currently be charged, per balance bucket
+const getRequestCharges = (leaveRequest) => {
+  if (leaveRequest.status !== 'approved') return [];
+
+  // A request crossing an academic year boundary charges each year its own share
+  const allocations = leaveRequest.yearAllocations && leaveRequest.yearAllocations.length
+    ? leaveRequest.yearAllocations
+    : [{ academicYear: leaveRequest.academicYear, days: leaveRequest.totalDays }];
+
+  return allocations.map(({ academicYear, days }) => ({
+    academicYear,
+    leaveType: leaveRequest.leaveType,
+    days
+  }));
+};
+
+const bucketId = ({ academicYear, leaveType }) => `${academicYear}:${leaveType}`;
+
+// Post whatever debits/reversals are needed so the ledger matches the request's status
+const syncRequestCharges = async (leaveRequest, actorId) => {
+  const employee = leaveRequest.employee._id || leaveRequest.employee;
+
+  const entries = await LeaveLedgerEntry.find({ leaveRequest: leaveRequest._id }).sort({ sequence: 1 });
+  let sequence = entries.length ? entries[entries.length - 1].sequence : 0;
+
+  const charged = {};
+  entries.forEach((entry) => {
+    const id = bucketId(entry);
+    const signed = entry.entryType === 'debit' ? entry.days : -entry.days;
+    charged[id] = charged[id] || { academicYear: entry.academicYear, leaveType: entry.leaveType, days: 0 };
+    charged[id].days += signed;
+  });
+
+  const target = {};
+  getRequestCharges(leaveRequest).forEach((charge) => {
+    target[bucketId(charge)] = charge;
+  });
+
+  const differences = Object.keys({ ...charged, ...target }).map((id) => {
+    const bucket = target[id] || charged[id];
+    const difference = roundDays((target[id] ? target[id].days : 0) - (charged[id] ? charged[id].days : 0));
+    return { academicYear: bucket.academicYear, leaveType: bucket.leaveType, difference };
+  }).filter(({ difference }) => difference !== 0);
+
+  // Credit back first so a change of leave type or year never needs double the balance
+  differences.sort((a, b) => a.difference - b.difference);
+
+  const posted = [];
+  for (const { academicYear, leaveType, difference } of differences) {
+    sequence += 1;
+    posted.push(await postLedgerEntry({
+      employee,
+      academicYear,
+      leaveType,
+      entryType: difference > 0 ? 'debit' : 'reversal',
+      days: Math.abs(difference),
+      leaveRequest: leaveRequest._id,
+      sequence,
+      description: difference > 0
+        ? `Leave request approved (${leaveRequest.startDate.toDateString()} - ${leaveRequest.endDate.toDateString()})`
+        : `Leave request ${leaveRequest.status} (${leaveRequest.startDate.toDateString()} - ${leaveRequest.endDate.toDateString()})`,
+      createdBy: actorId
+    }));
+  }
+
+  return posted;
+};
+
+// Recompute a LeaveBalance document from its ledger entries
+const rebuildBalance = async ({ employee, academicYear, leaveType }) => {
+  const entries = await LeaveLedgerEntry.find({ employee, academicYear, leaveType });
+
+  const totals = { totalAllocated: 0, used: 0, remaining: 0, carriedForward: 0 };
+  entries.forEach((entry) => {
+    const effect = balanceEffect(entry.entryType, entry.days);
+    Object.keys(totals).forEach((field) => { totals[field] += effect[field]; });
+  });
+  Object.keys(totals).forEach((field) => { totals[field] = roundDays(totals[field]); });
+
+  return LeaveBalance.findOneAndUpdate(
+    { employee, academicYear, leaveType },
+    { $set: totals },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Recompute every balance an employee has in an academic year
+const rebuildBalances = async ({ employee, academicYear }) => {
+  const [ledgerTypes, balanceTypes] = await Promise.all([
+    LeaveLedgerEntry.distinct('leaveType', { employee, academicYear }),
+    LeaveBalance.distinct('leaveType', { employee, academicYear })
+  ]);
+
+  const leaveTypes = [...new Set([...ledgerTypes, ...balanceTypes])];
+  const balances = [];
+  for (const leaveType of leaveTypes) {
+    balances.push(await rebuildBalance({ employee, academicYear, leaveType }));
+  }
+  return balances;
+};
+
+// Ledger entries for one balance bucket with a running balance
+const getBalanceStatement = async ({ employee, academicYear, leaveType }) => {
+  const query = { employee, academicYear };
+  if (leaveType) query.leaveType = leaveType;
+
+  const entries = await LeaveLedgerEntry.find(query)
+    .populate('leaveRequest', 'startDate endDate status')
+    .populate('createdBy', 'name email')
+    .sort({ createdAt: 1 });
+
+  const running = {};
+  return entries.map((entry) => {
+    const effect = balanceEffect(entry.entryType, entry.days);
+    running[entry.leaveType] = roundDays((running[entry.leaveType] || 0) + effect.remaining);
+    return {
+      ...entry.toObject(),
+      change: effect.remaining,
+      balanceAfter: running[entry.leaveType]
+    };
+  });
+};
+
+module.exports = {
+  roundDays,
+  getAvailableDays,
+  postLedgerEntry,
+  getRequestCharges,
+  syncRequestCharges,
+  rebuildBalance,
+  rebuildBalances,
+  getBalanceStatement
+};
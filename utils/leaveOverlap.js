@@ -0,0 +1,56 @@
+const LeaveRequest = require('../models/LeaveRequest');
+const { WORKDAY_HOURS, startOfDay, toDateKey } = require('./workingDays');
+
+// Requests that still hold their dates
+const ACTIVE_STATUSES = ['pending', 'approved'];
+
+// Share of the day a single-day request takes up
+const dayFraction = ({ durationType, hours }) => {
+  if (durationType === 'half_day') return 0.5;
+  if (durationType === 'hourly') return Number(hours) / WORKDAY_HOURS;
+  return 1;
+};
+
+// The employee's pending or approved requests that clash with the given dates. Full days clash
+// with anything on the same day; half days clash with the same half; otherwise partial-day
+// requests clash once the day is more than fully booked.
+const findConflictingRequests = async ({ employeeId, startDate, endDate, durationType = 'full_day', halfDayPeriod, hours, excludeIds = [] }) => {
+  const overlapping = await LeaveRequest.find({
+    employee: employeeId,
+    status: { $in: ACTIVE_STATUSES },
+    _id: { $nin: excludeIds },
+    startDate: { $lte: startOfDay(endDate) },
+    endDate: { $gte: startOfDay(startDate) }
+  })
+    .select('leaveType startDate endDate status durationType halfDayPeriod hours')
+    .sort({ startDate: 1 });
+
+  if (durationType === 'full_day') return overlapping;
+
+  const conflicts = overlapping.filter((other) => {
+    const otherType = other.durationType || 'full_day';
+    if (otherType === 'full_day') return true;
+    return otherType === 'half_day' && durationType === 'half_day' && other.halfDayPeriod === halfDayPeriod;
+  });
+  if (conflicts.length) return conflicts;
+
+  const booked = overlapping.reduce((sum, other) => sum + dayFraction(other), 0);
+  return booked + dayFraction({ durationType, hours }) > 1 ? overlapping : [];
+};
+
+const describeConflict = (conflict) => {
+  const dates = toDateKey(conflict.startDate) === toDateKey(conflict.endDate)
+    ? `on ${toDateKey(conflict.startDate)}`
+    : `from ${toDateKey(conflict.startDate)} to ${toDateKey(conflict.endDate)}`;
+  return `your ${conflict.status} ${conflict.leaveType} leave ${dates}`;
+};
+
+// Error message naming the clashing requests
+const describeConflicts = (conflicts) => {
+  return `Leave request overlaps ${conflicts.map(describeConflict).join(', ')}`;
+};
+
+module.exports = {
+  findConflictingRequests,
+  describeConflicts
+};
@@ -0,0 +1,350 @@
+const LeaveRequest = require('../models/LeaveRequest');
+const LeaveBalance = require('../models/LeaveBalance');
+const Department = require('../models/Department');
+const User = require('../models/User');
+const { getAcademicYearBounds } = require('./academicYear');
+const { calculateWorkingDays } = require('./workingDays');
+const { httpError } = require('./httpError');
+const { idOf } = require('./ids');
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const round = (value, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Whose leave a user may report on: admins see everyone, coordinators the departments they
+// coordinate (or their own), managers their direct reports and everyone else only themselves.
+// `department` narrows the scope further. Returns employee ids, or null for everyone.
+const getReportScope = async (user, department) => {
+  if (user.role === 'admin') {
+    return department ? User.find({ department }).distinct('_id') : null;
+  }
+
+  if (user.role === 'coordinator') {
+    let departments = (await Department.find({ coordinator: user._id }).distinct('_id')).map(String);
+    if (departments.length === 0 && user.department) departments = [String(idOf(user.department))];
+    if (department && !departments.includes(String(department))) {
+      throw httpError(403, 'You can only report on the departments you coordinate');
+    }
+    // A coordinator of no department, and without one of their own, reports on nobody
+    if (departments.length === 0) return [];
+    return User.find({ department: { $in: department ? [department] : departments } }).distinct('_id');
+  }
+
+  if (user.role === 'manager') {
+    const query = { manager: user._id };
+    if (department) query.department = department;
+    return User.find(query).distinct('_id');
+  }
+
+  return [user._id];
+};
+
+const scopeMatch = (employees) => (employees ? { employee: { $in: employees } } : {});
+
+// Requests charged to an academic year, including those crossing into it
+const requestMatch = (academicYear, employees, extra = {}) => ({
+  ...scopeMatch(employees),
+  $or: [{ academicYear }, { 'yearAllocations.academicYear': academicYear }],
+  ...extra
+});
+
+// The days a request charges to one academic year
+const yearDaysStage = (academicYear) => ({
+  $addFields: {
+    yearDays: {
+      $cond: [
+        { $gt: [{ $size: { $ifNull: ['$yearAllocations', []] } }, 0] },
+        {
+          $sum: {
+            $map: {
+              input: { $filter: { input: '$yearAllocations', cond: { $eq: ['$$this.academicYear', academicYear] } } },
+              in: '$$this.days'
+            }
+          }
+        },
+        '$totalDays'
+      ]
+    }
+  }
+});
+
+// Attach the employee's name, ID and department to each document
+const employeeStages = [
+  { $lookup: { from: 'users', localField: 'employee', foreignField: '_id', as: 'employeeDoc' } },
+  { $unwind: '$employeeDoc' },
+  { $lookup: { from: 'departments', localField: 'employeeDoc.department', foreignField: '_id', as: 'departmentDoc' } },
+  { $unwind: { path: '$departmentDoc', preserveNullAndEmptyArrays: true } }
+];
+
+const departmentGroupId = { _id: '$departmentDoc._id', name: { $first: '$departmentDoc.name' } };
+
+// Approved days by calendar month and leave type. Leave spanning months is split across the
+// months it covers, in proportion to its working days in each; days before or after the
+// academic year are left out, as they are charged to another year.
+const getMonthlyDays = async (academicYear, employees) => {
+  const { start, end } = await getAcademicYearBounds(academicYear);
+  const lastDay = new Date(end.getTime() - DAY_MS);
+  const stages = [
+    { $match: requestMatch(academicYear, employees, { status: 'approved' }) },
+    yearDaysStage(academicYear),
+    {
+      $addFields: {
+        from: { $max: ['$startDate', start] },
+        to: { $min: ['$endDate', lastDay] }
+      }
+    },
+    {
+      $addFields: {
+        fromMonth: { $dateToString: { format: '%Y-%m', date: '$from' } },
+        toMonth: { $dateToString: { format: '%Y-%m', date: '$to' } }
+      }
+    }
+  ];
+
+  const [singleMonth, spanning] = await Promise.all([
+    LeaveRequest.aggregate([
+      ...stages,
+      { $match: { $expr: { $eq: ['$fromMonth', '$toMonth'] } } },
+      { $group: { _id: { month: '$fromMonth', leaveType: '$leaveType' }, days: { $sum: '$yearDays' } } }
+    ]),
+    LeaveRequest.aggregate([
+      ...stages,
+      { $match: { $expr: { $ne: ['$fromMonth', '$toMonth'] } } },
+      { $lookup: { from: 'users', localField: 'employee', foreignField: '_id', as: 'employeeDoc' } },
+      { $unwind: '$employeeDoc' },
+      { $project: { leaveType: 1, yearDays: 1, from: 1, to: 1, fromMonth: 1, department: '$employeeDoc.department' } }
+    ])
+  ]);
+
+  const totals = {};
+  const add = (month, leaveType, days) => {
+    const key = `${month}:${leaveType}`;
+    totals[key] = totals[key] || { month, leaveType, days: 0 };
+    totals[key].days += days;
+  };
+
+  singleMonth.forEach((row) => add(row._id.month, row._id.leaveType, row.days));
+  for (const request of spanning) {
+    const { days } = await calculateWorkingDays({ startDate: request.from, endDate: request.to, departmentId: request.department });
+    const workingDays = days.filter((day) => day.type === 'working');
+    if (workingDays.length === 0) {
+      add(request.fromMonth, request.leaveType, request.yearDays);
+      continue;
+    }
+    const perMonth = {};
+    workingDays.forEach((day) => {
+      const month = day.date.slice(0, 7);
+      perMonth[month] = (perMonth[month] || 0) + 1;
+    });
+    Object.keys(perMonth).forEach((month) => {
+      add(month, request.leaveType, (request.yearDays * perMonth[month]) / workingDays.length);
+    });
+  }
+
+  return Object.values(totals)
+    .sort((a, b) => a.month.localeCompare(b.month) || a.leaveType.localeCompare(b.leaveType))
+    .map((row) => ({ ...row, days: round(row.days, 3) }));
+};
+
+// Approved days by department, leave type and calendar month
+const getDaysTaken = async (academicYear, employees) => {
+  const [[result], byMonth] = await Promise.all([
+    LeaveRequest.aggregate([
+      { $match: requestMatch(academicYear, employees, { status: 'approved' }) },
+      yearDaysStage(academicYear),
+      ...employeeStages,
+      {
+        $facet: {
+          byDepartment: [
+            { $group: { ...departmentGroupId, days: { $sum: '$yearDays' }, requests: { $sum: 1 } } },
+            { $sort: { days: -1 } }
+          ],
+          byLeaveType: [
+            { $group: { _id: '$leaveType', days: { $sum: '$yearDays' }, requests: { $sum: 1 } } },
+            { $sort: { days: -1 } }
+          ]
+        }
+      }
+    ]),
+    getMonthlyDays(academicYear, employees)
+  ]);
+
+  const days = (row) => round(row.days, 3);
+  return {
+    byDepartment: result.byDepartment.map((row) => ({ department: row._id || null, name: row.name || 'No department', days: days(row), requests: row.requests })),
+    byLeaveType: result.byLeaveType.map((row) => ({ leaveType: row._id, days: days(row), requests: row.requests })),
+    byMonth
+  };
+};
+
+// Allocated against used days from the balances, by leave type and department
+const getUtilisation = async (academicYear, employees) => {
+  const totals = {
+    allocated: { $sum: '$totalAllocated' },
+    used: { $sum: '$used' },
+    remaining: { $sum: '$remaining' },
+    employees: { $addToSet: '$employee' }
+  };
+
+  const [result] = await LeaveBalance.aggregate([
+    { $match: { ...scopeMatch(employees), academicYear } },
+    ...employeeStages,
+    {
+      $facet: {
+        byLeaveType: [{ $group: { _id: '$leaveType', ...totals } }, { $sort: { _id: 1 } }],
+        byDepartment: [{ $group: { ...departmentGroupId, ...totals } }, { $sort: { name: 1 } }]
+      }
+    }
+  ]);
+
+  const describe = ({ allocated, used, remaining, employees: counted }) => ({
+    allocated: round(allocated, 3),
+    used: round(used, 3),
+    remaining: round(remaining, 3),
+    employees: counted.length,
+    // Share of the allocation taken, as a percentage; null when nothing was allocated
+    utilisation: allocated > 0 ? round((used / allocated) * 100, 1) : null
+  });
+
+  return {
+    byLeaveType: result.byLeaveType.map((row) => ({ leaveType: row._id, ...describe(row) })),
+    byDepartment: result.byDepartment.map((row) => ({ department: row._id || null, name: row.name || 'No department', ...describe(row) }))
+  };
+};
+
+// Employees with the most approved days in the year
+const getTopAbsentees = async (academicYear, employees, { leaveType, limit = 10 } = {}) => {
+  const extra = { status: 'approved' };
+  if (leaveType) extra.leaveType = leaveType;
+
+  const rows = await LeaveRequest.aggregate([
+    { $match: requestMatch(academicYear, employees, extra) },
+    yearDaysStage(academicYear),
+    {
+      $group: {
+        _id: '$employee',
+        days: { $sum: '$yearDays' },
+        // How many separate absences, which matters as much as their length for sick leave
+        requests: { $sum: 1 },
+        leaveTypes: { $addToSet: '$leaveType' }
+      }
+    },
+    { $sort: { days: -1, requests: -1 } },
+    { $limit: limit },
+    { $addFields: { employee: '$_id' } },
+    ...employeeStages
+  ]);
+
+  return rows.map((row) => ({
+    employee: {
+      _id: row.employeeDoc._id,
+      name: row.employeeDoc.name,
+      employeeId: row.employeeDoc.employeeId
+    },
+    department: row.departmentDoc ? row.departmentDoc.name : null,
+    days: round(row.days, 3),
+    requests: row.requests,
+    leaveTypes: row.leaveTypes.sort()
+  }));
+};
+
+// How long approvers take: hours from a stage opening to its decision, less any time on hold
+// waiting for the employee, by stage role; and from submission to the final decision
+const getApprovalTurnaround = async (academicYear, employees) => {
+  const decided = requestMatch(academicYear, employees, { status: { $in: ['approved', 'rejected', 'superseded'] } });
+
+  const [byRole, overall] = await Promise.all([
+    LeaveRequest.aggregate([
+      { $match: decided },
+      { $unwind: '$approvalSteps' },
+      { $match: { 'approvalSteps.openedAt': { $ne: null }, 'approvalSteps.approvedAt': { $ne: null } } },
+      {
+        $project: {
+          role: '$approvalSteps.role',
+          escalated: { $cond: [{ $ifNull: ['$approvalSteps.escalatedAt', false] }, 1, 0] },
+          hours: {
+            $max: [0, {
+              $subtract: [
+                { $divide: [{ $subtract: ['$approvalSteps.approvedAt', '$approvalSteps.openedAt'] }, HOUR_MS] },
+                { $ifNull: ['$approvalSteps.pausedHours', 0] }
+              ]
+            }]
+          }
+        }
+      },
+      {
+        $group: {
+          _id: '$role',
+          decisions: { $sum: 1 },
+          averageHours: { $avg: '$hours' },
+          maxHours: { $max: '$hours' },
+          escalated: { $sum: '$escalated' }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]),
+    LeaveRequest.aggregate([
+      { $match: decided },
+      { $project: { decidedAt: { $max: '$approvalSteps.approvedAt' }, createdAt: 1 } },
+      { $match: { decidedAt: { $ne: null } } },
+      { $project: { hours: { $divide: [{ $subtract: ['$decidedAt', '$createdAt'] }, HOUR_MS] } } },
+      { $group: { _id: null, requests: { $sum: 1 }, averageHours: { $avg: '$hours' }, maxHours: { $max: '$hours' } } }
+    ])
+  ]);
+
+  return {
+    byStage: byRole.map((row) => ({
+      role: row._id,
+      decisions: row.decisions,
+      averageHours: round(row.averageHours, 1),
+      maxHours: round(row.maxHours, 1),
+      escalated: row.escalated
+    })),
+    overall: overall.length
+      ? { requests: overall[0].requests, averageHours: round(overall[0].averageHours, 1), maxHours: round(overall[0].maxHours, 1) }
+      : { requests: 0, averageHours: null, maxHours: null }
+  };
+};
+
+// Share of decided requests that were rejected, by leave type and department
+const getRejectionRates = async (academicYear, employees) => {
+  const counts = {
+    decided: { $sum: 1 },
+    rejected: { $sum: { $cond: [{ $eq: ['$status', 'rejected'] }, 1, 0] } }
+  };
+
+  const [result] = await LeaveRequest.aggregate([
+    // Superseded requests were approved before being amended
+    { $match: requestMatch(academicYear, employees, { status: { $in: ['approved', 'rejected', 'superseded'] } }) },
+    ...employeeStages,
+    {
+      $facet: {
+        overall: [{ $group: { _id: null, ...counts } }],
+        byLeaveType: [{ $group: { _id: '$leaveType', ...counts } }, { $sort: { _id: 1 } }],
+        byDepartment: [{ $group: { ...departmentGroupId, ...counts } }, { $sort: { name: 1 } }]
+      }
+    }
+  ]);
+
+  const describe = ({ decided, rejected }) => ({
+    decided,
+    rejected,
+    rejectionRate: decided > 0 ? round((rejected / decided) * 100, 1) : null
+  });
+
+  return {
+    overall: describe(result.overall[0] || { decided: 0, rejected: 0 }),
+    byLeaveType: result.byLeaveType.map((row) => ({ leaveType: row._id, ...describe(row) })),
+    byDepartment: result.byDepartment.map((row) => ({ department: row._id || null, name: row.name || 'No department', ...describe(row) }))
+  };
+};
+
+module.exports = {
+  getReportScope,
+  getDaysTaken,
+  getUtilisation,
+  getTopAbsentees,
+  getApprovalTurnaround,
+  getRejectionRates
+};
@@ -0,0 +1,6 @@
+// Every kind of leave that can be requested, allocated or given a rule
+const LEAVE_TYPES = ['sick', 'vacation', 'personal', 'emergency', 'maternity', 'paternity', 'other'];
+
+module.exports = {
+  LEAVE_TYPES
+};
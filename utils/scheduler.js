@@ -0,0 +1,37 @@
+// Lightweight in-process scheduler for recurring maintenance jobs
+const jobs = {};
+
+// Register a job that runs every `intervalMinutes`; a run is skipped while the previous one is still going
+const scheduleJob = (name, intervalMinutes, task) => {
+  const job = { name, running: false, lastRunAt: null };
+
+  job.run = async () => {
+    if (job.running) return;
+    job.running = true;
+    try {
+      await task();
+      job.lastRunAt = new Date();
+    } catch (error) {
+      console.error(`Scheduled job '${name}' failed:`, error);
+    } finally {
+      job.running = false;
+    }
+  };
+
+  job.timer = setInterval(job.run, intervalMinutes * 60 * 1000);
+  jobs[name] = job;
+  return job;
+};
+
+// Run every registered job once, e.g. right after the database connects
+const runAllJobs = () => Promise.all(Object.values(jobs).map((job) => job.run()));
+
+const stopAllJobs = () => {
+  Object.values(jobs).forEach((job) => clearInterval(job.timer));
+};
+
+module.exports = {
+  scheduleJob,
+  runAllJobs,
+  stopAllJobs
+};
@@ -0,0 +1,38 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Files are saved and fetched through this interface so the local disk can later be swapped
+// for another backend (e.g. object storage) without touching the routes. Keys are opaque.
+const createLocalStorage = (rootDir) => {
+  // Keys never contain directories, so a stored key can't point outside rootDir
+  const resolve = (key) => path.join(rootDir, path.basename(key));
+
+  return {
+    // Store a file's contents and return the key to fetch it by
+    save: async (buffer, originalName) => {
+      const key = `${crypto.randomBytes(16).toString('hex')}${path.extname(originalName || '').toLowerCase()}`;
+      await fs.promises.mkdir(rootDir, { recursive: true });
+      await fs.promises.writeFile(resolve(key), buffer);
+      return key;
+    },
+
+    // Readable stream of a stored file; emits 'error' if it is missing
+    read: (key) => fs.createReadStream(resolve(key)),
+
+    remove: async (key) => {
+      try {
+        await fs.promises.unlink(resolve(key));
+      } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+  };
+};
+
+const storage = createLocalStorage(path.resolve(process.env.UPLOAD_DIR || 'uploads'));
+
+module.exports = {
+  createLocalStorage,
+  storage
+};
@@ -0,0 +1,230 @@
+const User = require('../models/User');
+const Department = require('../models/Department');
+const { parseCsv } = require('./csv');
+const { rerouteApprovals } = require('./approvalWorkflow');
+const { allocateForUser } = require('./allocationService');
+const { getCurrentAcademicYear } = require('./academicYear');
+const { sendWelcomeEmail } = require('./emailService');
+const { httpError } = require('./httpError');
+
+const ROLES = ['employee', 'manager', 'coordinator', 'admin'];
+const MAX_IMPORT_ROWS = 2000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const sameId = (a, b) => String(a || '') === String(b || '');
+
+// Everything needed to check a file without querying per row
+const loadLookups = async (records) => {
+  const employeeIds = records.map((record) => record.employeeid).filter(Boolean);
+  const emails = records.map((record) => (record.email || '').toLowerCase()).filter(Boolean);
+  const managerKeys = records.map((record) => record.manager).filter(Boolean);
+
+  const [departments, users] = await Promise.all([
+    Department.find({ isActive: true }),
+    User.find({
+      $or: [
+        { employeeId: { $in: [...employeeIds, ...managerKeys] } },
+        { email: { $in: [...emails, ...managerKeys.map((key) => key.toLowerCase())] } }
+      ]
+    })
+  ]);
+
+  const departmentsByName = new Map(departments.map((department) => [department.name.toLowerCase(), department]));
+  const usersByEmployeeId = new Map(users.map((user) => [user.employeeId, user]));
+  const usersByEmail = new Map(users.map((user) => [user.email, user]));
+  return { departmentsByName, usersByEmployeeId, usersByEmail };
+};
+
+// Check one row against the database and the rest of the file. Blank cells leave an
+// existing user's fields as they are, so a file can update just some columns.
+const validateRow = (record, lookups, fileRows) => {
+  const errors = [];
+  const existing = lookups.usersByEmployeeId.get(record.employeeid);
+  const changes = {};
+
+  if (!record.employeeid) {
+    errors.push('Employee ID is required');
+  } else if (fileRows.byEmployeeId.get(record.employeeid) !== record) {
+    errors.push(`Employee ID ${record.employeeid} appears more than once in the file`);
+  }
+
+  if (record.name) changes.name = record.name;
+  else if (!existing) errors.push('Name is required');
+
+  const email = (record.email || '').toLowerCase();
+  if (email) {
+    const owner = lookups.usersByEmail.get(email);
+    if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`${record.email} is not a valid email`);
+    } else if (owner && owner.employeeId !== record.employeeid) {
+      errors.push(`${record.email} belongs to ${owner.employeeId}`);
+    } else if (fileRows.byEmail.get(email) !== record) {
+      errors.push(`${record.email} appears more than once in the file`);
+    } else {
+      changes.email = email;
+    }
+  } else if (!existing) {
+    errors.push('Email is required');
+  }
+
+  // Passwords are only set for new accounts; existing users keep theirs
+  if (!existing) {
+    if (!record.password) errors.push('Password is required for new users');
+    else if (record.password.length < 6) errors.push('Password must be at least 6 characters');
+    else changes.password = record.password;
+  }
+
+  if (record.department) {
+    const department = lookups.departmentsByName.get(record.department.toLowerCase());
+    if (department) changes.department = department._id;
+    else errors.push(`Department "${record.department}" not found`);
+  } else if (!existing) {
+    errors.push('Department is required');
+  }
+
+  if (record.role) {
+    const role = record.role.toLowerCase();
+    if (ROLES.includes(role)) changes.role = role;
+    else errors.push(`Invalid role "${record.role}"`);
+  }
+
+  // Managers are named by employee ID or email and may be new users in the same file
+  if (record.manager) {
+    const key = record.manager;
+    const inFile = fileRows.byEmployeeId.get(key) || fileRows.byEmail.get(key.toLowerCase());
+    const manager = lookups.usersByEmployeeId.get(key) || lookups.usersByEmail.get(key.toLowerCase());
+    if (sameId(key, record.employeeid) || key.toLowerCase() === email) {
+      errors.push('A user cannot be their own manager');
+    } else if (inFile) {
+      changes.managerEmployeeId = inFile.employeeid;
+    } else if (manager) {
+      changes.managerEmployeeId = manager.employeeId;
+    } else {
+      errors.push(`Manager "${key}" not found`);
+    }
+  }
+
+  if (record.phone) changes.phone = record.phone;
+  if (record.position) changes.position = record.position;
+
+  if (record.joiningdate) {
+    const joiningDate = new Date(record.joiningdate);
+    if (Number.isNaN(joiningDate.getTime())) errors.push(`Invalid joining date "${record.joiningdate}"`);
+    else changes.joiningDate = joiningDate;
+  }
+
+  return {
+    row: record.row,
+    employeeId: record.employeeid,
+    name: record.name || (existing && existing.name),
+    action: existing ? 'update' : 'create',
+    errors,
+    changes,
+    existing
+  };
+};
+
+// Parse and check a whole file; nothing is written
+const validateImport = async (text) => {
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    throw httpError(400, 'The file has no user rows');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw httpError(400, `Import at most ${MAX_IMPORT_ROWS} users at a time`);
+  }
+  if (!('employeeid' in records[0])) {
+    throw httpError(400, 'The file must have an "Employee ID" column');
+  }
+
+  // The first row for each employee ID or email; any later ones are reported as duplicates
+  const fileRows = { byEmployeeId: new Map(), byEmail: new Map() };
+  records.forEach((record) => {
+    if (record.employeeid && !fileRows.byEmployeeId.has(record.employeeid)) {
+      fileRows.byEmployeeId.set(record.employeeid, record);
+    }
+    const email = (record.email || '').toLowerCase();
+    if (email && !fileRows.byEmail.has(email)) fileRows.byEmail.set(email, record);
+  });
+
+  const lookups = await loadLookups(records);
+  return records.map((record) => validateRow(record, lookups, fileRows));
+};
+
+// Report for the client: the row checks without the internal change sets
+const summarise = (rows) => ({
+  total: rows.length,
+  created: rows.filter((row) => row.action === 'create' && row.errors.length === 0).length,
+  updated: rows.filter((row) => row.action === 'update' && row.errors.length === 0).length,
+  invalid: rows.filter((row) => row.errors.length > 0).length,
+  rows: rows.map(({ row, employeeId, name, action, errors }) => ({ row, employeeId, name, action, errors }))
+});
+
+// Write every row of a checked file: users first, then managers, since a manager may be
+// created further down the file
+const applyImport = async (rows, { sendWelcome }) => {
+  const saved = new Map();
+  const previous = new Map();
+
+  for (const row of rows) {
+    const { managerEmployeeId, ...fields } = row.changes;
+    const user = row.existing || new User();
+    previous.set(row.employeeId, { manager: user.manager, department: user.department });
+    Object.assign(user, fields, { employeeId: row.employeeId });
+    await user.save();
+    saved.set(row.employeeId, user);
+  }
+
+  const existingManagers = await User.find({
+    employeeId: { $in: rows.map((row) => row.changes.managerEmployeeId).filter((id) => id && !saved.has(id)) }
+  });
+  existingManagers.forEach((manager) => saved.set(manager.employeeId, manager));
+
+  let academicYear;
+  try {
+    ({ label: academicYear } = await getCurrentAcademicYear());
+  } catch (error) {
+    console.error('Import academic year error:', error);
+  }
+
+  for (const row of rows) {
+    const user = saved.get(row.employeeId);
+    if (row.changes.managerEmployeeId) {
+      user.manager = saved.get(row.changes.managerEmployeeId)._id;
+      await user.save();
+    }
+
+    const before = previous.get(row.employeeId);
+    if (row.action === 'update' && (!sameId(before.manager, user.manager) || !sameId(before.department, user.department))) {
+      await rerouteApprovals(user);
+    }
+
+    if (row.action === 'create') {
+      // As with registration, balances can be generated again later if this fails
+      try {
+        if (academicYear) await allocateForUser(user, academicYear);
+      } catch (error) {
+        console.error('Leave allocation error:', error);
+      }
+      if (sendWelcome) await sendWelcomeEmail(user);
+    }
+  }
+};
+
+// Check a CSV of users and, unless it is a dry run, create or update them. A file with any
+// invalid row is not imported at all.
+const importUsers = async (text, { dryRun = true, sendWelcome = false } = {}) => {
+  const rows = await validateImport(text);
+  const valid = rows.every((row) => row.errors.length === 0);
+
+  const imported = !dryRun && valid;
+  if (imported) {
+    await applyImport(rows, { sendWelcome });
+  }
+  return { dryRun, valid, imported, ...summarise(rows) };
+};
+
+module.exports = {
+  MAX_IMPORT_ROWS,
+  importUsers
+};
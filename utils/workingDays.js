@@ -0,0 +1,110 @@
+const Holiday = require('../models/Holiday');
+const Department = require('../models/Department');
+const { roundDays } = require('./leaveLedger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Organisation-wide weekend, e.g. WEEKEND_DAYS=5,6 for Friday/Saturday
+const DEFAULT_WEEKEND_DAYS = (process.env.WEEKEND_DAYS || '0,6')
+  .split(',')
+  .map((day) => parseInt(day, 10))
+  .filter((day) => day >= 0 && day <= 6);
+
+// Length of a working day, used to convert hourly leave into days
+const WORKDAY_HOURS = Number(process.env.WORKDAY_HOURS) || 8;
+
+// Leave dates are calendar dates, so all day arithmetic is done in UTC
+const startOfDay = (date) => {
+  const value = new Date(date);
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+};
+
+const toDateKey = (date) => startOfDay(date).toISOString().slice(0, 10);
+
+const getWeekendDays = (department) => {
+  if (department && department.weekendDays && department.weekendDays.length) {
+    return department.weekendDays;
+  }
+  return DEFAULT_WEEKEND_DAYS;
+};
+
+// Organisation-wide holidays plus those of the given department
+const getHolidays = (startDate, endDate, departmentId) => {
+  const query = {
+    isActive: true,
+    date: { $gte: startOfDay(startDate), $lte: startOfDay(endDate) }
+  };
+  query.$or = departmentId
+    ? [{ department: { $exists: false } }, { department: null }, { department: departmentId }]
+    : [{ department: { $exists: false } }, { department: null }];
+
+  return Holiday.find(query).sort({ date: 1 });
+};
+
+// Break a date range into working days, weekends and holidays for a department's calendar
+const calculateWorkingDays = async ({ startDate, endDate, departmentId }) => {
+  const department = departmentId ? await Department.findById(departmentId) : null;
+
+  const start = startOfDay(startDate);
+  const end = startOfDay(endDate);
+  const weekendDays = getWeekendDays(department);
+
+  const holidays = await getHolidays(start, end, departmentId);
+  const holidaysByDate = {};
+  holidays.forEach((holiday) => {
+    holidaysByDate[toDateKey(holiday.date)] = holiday.name;
+  });
+
+  const days = [];
+  for (let day = start; day <= end; day = new Date(day.getTime() + DAY_MS)) {
+    const date = toDateKey(day);
+    let type = 'working';
+    if (weekendDays.includes(day.getUTCDay())) {
+      type = 'weekend';
+    } else if (holidaysByDate[date]) {
+      type = 'holiday';
+    }
+    days.push({ date, type, name: holidaysByDate[date] });
+  }
+
+  return {
+    totalDays: days.filter((day) => day.type === 'working').length,
+    calendarDays: days.length,
+    weekendDays: days.filter((day) => day.type === 'weekend').length,
+    holidays: days.filter((day) => day.type === 'holiday').map(({ date, name }) => ({ date, name })),
+    days
+  };
+};
+
+// Days charged for a request: whole working days, or part of a single working day
+// for half-day and hourly leave
+const calculateLeaveDuration = async ({ startDate, endDate, departmentId, durationType = 'full_day', hours }) => {
+  const workingDays = await calculateWorkingDays({ startDate, endDate, departmentId });
+  if (durationType === 'full_day' || workingDays.totalDays === 0) {
+    return workingDays;
+  }
+
+  const fraction = durationType === 'half_day' ? 0.5 : Number(hours) / WORKDAY_HOURS;
+  return { ...workingDays, totalDays: roundDays(fraction) };
+};
+
+// How much of each day a request covers, as shown in exports and calendar feeds
+const describeDuration = (request) => {
+  if (request.durationType === 'half_day') {
+    return `${request.halfDayPeriod === 'second_half' ? 'Second' : 'First'} half day`;
+  }
+  if (request.durationType === 'hourly') return `${request.hours} hours`;
+  return 'Full days';
+};
+
+module.exports = {
+  DEFAULT_WEEKEND_DAYS,
+  WORKDAY_HOURS,
+  startOfDay,
+  toDateKey,
+  getWeekendDays,
+  getHolidays,
+  calculateWorkingDays,
+  calculateLeaveDuration,
+  describeDuration
+};
@@ -0,0 +1,137 @@
+const AllocationPolicy = require('../models/AllocationPolicy');
+const LeaveBalance = require('../models/LeaveBalance');
+const LeaveLedgerEntry = require('../models/LeaveLedgerEntry');
+const YearEndClosing = require('../models/YearEndClosing');
+const { resolvePolicies } = require('./allocationService');
+const { postLedgerEntry } = require('./leaveLedger');
+const { httpError } = require('./httpError');
+
+// Work out what each employee would carry from one academic year into the next
+const buildCarryForwardPreview = async (fromYear, toYear) => {
+  const policies = await AllocationPolicy.find({ isActive: true });
+  const balances = await LeaveBalance.find({ academicYear: fromYear, remaining: { $gt: 0 } })
+    .populate('employee', 'name email employeeId role department position isActive')
+    .sort({ leaveType: 1 });
+
+  const items = [];
+  balances.forEach((balance) => {
+    if (!balance.employee || !balance.employee.isActive) return;
+
+    // Leave types without a carry-forward cap (e.g. sick, emergency) reset to zero
+    const policy = resolvePolicies(balance.employee, policies)[balance.leaveType];
+    const cap = policy ? policy.carryForwardCap : 0;
+
+    items.push({
+      employee: balance.employee,
+      leaveType: balance.leaveType,
+      unused: balance.remaining,
+      cap,
+      carried: Math.min(balance.remaining, cap)
+    });
+  });
+
+  return {
+    fromYear,
+    toYear,
+    items,
+    totalCarried: items.reduce((sum, item) => sum + item.carried, 0)
+  };
+};
+
+// Post the carry-forward entries for a year close. The closing document snapshots the
+// preview on the first attempt, so a retried or resumed commit posts the same figures once.
+const commitYearEnd = async ({ fromYear, toYear, carryForwardExpiresAt, actorId }) => {
+  let closing = await YearEndClosing.findOne({ fromYear });
+
+  if (closing && closing.status === 'committed') {
+    return { closing, alreadyCommitted: true };
+  }
+
+  if (closing && closing.toYear !== toYear) {
+    throw httpError(400, `${fromYear} is already being closed into ${closing.toYear}`);
+  }
+
+  if (!closing) {
+    const preview = await buildCarryForwardPreview(fromYear, toYear);
+    try {
+      closing = await YearEndClosing.create({
+        fromYear,
+        toYear,
+        carryForwardExpiresAt,
+        items: preview.items.map((item) => ({ ...item, employee: item.employee._id })),
+        totalCarried: preview.totalCarried
+      });
+    } catch (error) {
+      if (error.code === 11000) {
+        throw httpError(409, `${fromYear} is already being closed, please try again`);
+      }
+      throw error;
+    }
+  }
+
+  const posted = await LeaveLedgerEntry.find({ yearEndClosing: closing._id }).select('employee leaveType');
+  const done = new Set(posted.map((entry) => `${entry.employee}:${entry.leaveType}`));
+
+  for (const item of closing.items) {
+    if (item.carried <= 0 || done.has(`${item.employee}:${item.leaveType}`)) continue;
+
+    const key = { employee: item.employee, academicYear: toYear, leaveType: item.leaveType };
+    await postLedgerEntry({
+      ...key,
+      entryType: 'carry_forward',
+      days: item.carried,
+      yearEndClosing: closing._id,
+      description: `Carried forward from ${fromYear}`,
+      createdBy: actorId
+    });
+
+    if (closing.carryForwardExpiresAt) {
+      await LeaveBalance.updateOne(key, { $set: { carryForwardExpiresAt: closing.carryForwardExpiresAt } });
+    }
+  }
+
+  closing.status = 'committed';
+  closing.committedBy = actorId;
+  closing.committedAt = new Date();
+  await closing.save();
+
+  return { closing, alreadyCommitted: false };
+};
+
+// Remove carried-forward days that are still unused once their expiry date has passed.
+// Carried days are treated as spent first, so only the part not covered by `used` expires.
+const expireCarriedForward = async (now = new Date()) => {
+  const due = await LeaveBalance.find({ carryForwardExpiresAt: { $lte: now } });
+  let expired = 0;
+
+  for (const balance of due) {
+    // Claim the balance so overlapping runs only expire it once
+    const claimed = await LeaveBalance.findOneAndUpdate(
+      { _id: balance._id, carryForwardExpiresAt: { $lte: now } },
+      { $unset: { carryForwardExpiresAt: 1 } },
+      { new: true }
+    );
+    if (!claimed) continue;
+
+    const unusedCarried = Math.min(Math.max(claimed.carriedForward - claimed.used, 0), claimed.remaining);
+    if (unusedCarried <= 0) continue;
+
+    await postLedgerEntry({
+      employee: claimed.employee,
+      academicYear: claimed.academicYear,
+      leaveType: claimed.leaveType,
+      entryType: 'expiry',
+      days: unusedCarried,
+      description: 'Unused carried-forward days expired'
+    });
+    expired += 1;
+  }
+
+  return expired;
+};
+
+module.exports = {
+  buildCarryForwardPreview,
+  commitYearEnd,
+  expireCarriedForward
+};